@@ -1,24 +1,59 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import * as THREE from 'three';
 import Scene from './components/Scene';
 import Toolbar from './components/Toolbar';
 import LayerManager from './components/LayerManager';
-import { BrushSettings, Layer, StencilSettings, AxisWidgetSettings, Vec3 } from './types';
-import { INITIAL_BRUSH } from './constants';
+import HistoryPanel from './components/HistoryPanel';
+import { BrushSettings, BrushPreset, LayerNode, LayerGroup, PaintTarget, MaterialChannel, StencilSettings, StencilDocument, StencilRig, AxisWidgetSettings, SymmetrySettings, CurvePoint, CameraPose, ExportSettings, LibraryTip } from './types';
+import { INITIAL_BRUSH, DEFAULT_PRESETS, DEFAULT_SYMMETRY, TEXTURE_SIZE } from './constants';
 import { LayerAPI } from './services/layerService';
 import { StencilAPI } from './services/stencilService';
+import { MeshAPI } from './services/meshService';
+import { ProjectAPI, ProjectState, PROJECT_EXTENSION } from './services/projectService';
+import { ExportAPI } from './services/exportService';
+import { TipLibraryAPI } from './services/tipLibraryService';
+import { PresetAPI } from './services/presetService';
 import { eventBus, Events } from './services/eventBus';
+import { history } from './services/historyService';
+
+const LAYER_BYTES = TEXTURE_SIZE * TEXTURE_SIZE * 4;
+
+// History labels of paint strokes per tool
+const TOOL_LABELS: Partial<Record<BrushSettings['mode'], string>> = {
+  erase: 'Erase', smudge: 'Smudge', blur: 'Blur', sharpen: 'Sharpen', clone: 'Clone Stamp'
+};
+
+// Memory held by the canvases of a node (a layer and its mask, or everything in a group)
+const nodeBytes = (node: LayerNode) => LayerAPI.getLayers([node]).reduce((sum, l) => sum + LAYER_BYTES * ((l.mask ? 2 : 1) + Object.keys(l.channels).length), 0);
 
 function App() {
   const [brush, setBrush] = useState<BrushSettings>(INITIAL_BRUSH);
-  const [layers, setLayers] = useState<Layer[]>([]);
+  const [presets, setPresets] = useState<BrushPreset[]>(DEFAULT_PRESETS);
+  // Imported brush tips, kept in browser storage across sessions
+  const [tipLibrary, setTipLibrary] = useState<LibraryTip[]>([]);
+  const [layers, setLayers] = useState<LayerNode[]>([]);
   const [activeLayerId, setActiveLayerId] = useState<string>('');
+  const [paintTarget, setPaintTarget] = useState<PaintTarget>('color');
   
-  // Stencil State
+  // Stencil State. `stencil` is the one being edited; its library entry is only written back when
+  // switching, so `stencilLibrary` reads it from the live state.
   const [stencil, setStencil] = useState<StencilSettings>(StencilAPI.getDefaults());
+  const [stencils, setStencils] = useState<StencilDocument[]>([]);
+  const stencilLibrary = useMemo(() => StencilAPI.storeDocument(stencils, stencil), [stencils, stencil]);
+
+  // Paint Surface State
+  const [geometry, setGeometry] = useState<THREE.BufferGeometry>(() => MeshAPI.createDefault());
+  const [meshName, setMeshName] = useState('Sphere');
+
+  // Symmetry State (mirror planes / radial repeats applied to every stroke)
+  const [symmetry, setSymmetry] = useState<SymmetrySettings>(DEFAULT_SYMMETRY);
 
   // Curve State
-  const [curvePoints, setCurvePoints] = useState<Vec3[]>([]);
+  const [curvePoints, setCurvePoints] = useState<CurvePoint[]>([]);
+
+  // Last reported camera pose (kept out of React state; only needed when saving)
+  const cameraPoseRef = useRef<CameraPose | null>(null);
 
   // Axis Widget State (API to displace/place)
   const [axisWidget, setAxisWidget] = useState<AxisWidgetSettings>({
@@ -27,6 +62,23 @@ function App() {
     margin: [80, 80]
   });
 
+  // Libraries saved by earlier sessions. Presets are written back on every change once loaded.
+  const presetsLoadedRef = useRef(false);
+  useEffect(() => {
+    TipLibraryAPI.load().then(setTipLibrary);
+    PresetAPI.load()
+      .then(stored => PresetAPI.withThumbnails(PresetAPI.merge(stored ?? [], DEFAULT_PRESETS))) // Built-ins added since the last save join too
+      .then(loaded => {
+        presetsLoadedRef.current = true;
+        setPresets(prev => PresetAPI.merge(loaded, prev)); // Keep presets saved while loading
+      })
+      .catch(err => console.warn(`[PresetAPI] Failed to restore presets; changes will not be saved this session.`, err));
+  }, []);
+
+  useEffect(() => {
+    if (presetsLoadedRef.current) PresetAPI.save(presets);
+  }, [presets]);
+
   // Initialize first layer
   useEffect(() => {
     const baseLayer = LayerAPI.create('Base Layer');
@@ -37,15 +89,52 @@ function App() {
     setActiveLayerId(baseLayer.id);
   }, []);
 
+  // Latest layer stack for event handlers and history commands registered once
+  const layersRef = useRef(layers);
+  layersRef.current = layers;
+  const activeLayerIdRef = useRef(activeLayerId);
+  activeLayerIdRef.current = activeLayerId;
+  const curvePointsRef = useRef(curvePoints);
+  curvePointsRef.current = curvePoints;
+
+  // Painting targets the mask only while the active layer actually has one
+  const activeLayer = LayerAPI.findLayer(layers, activeLayerId);
+  const effectivePaintTarget: PaintTarget = paintTarget === 'mask' && activeLayer?.mask ? 'mask' : 'color';
+  const paintTargetRef = useRef(effectivePaintTarget);
+  paintTargetRef.current = effectivePaintTarget;
+
+  // Apply a new layer stack (and active layer) as one undoable step.
+  // `prev` overrides the stack restored on undo (for edits previewed live, like the opacity slider).
+  const commitLayers = (label: string, next: LayerNode[], nextActiveId: string = activeLayerIdRef.current, bytes: number = 0, prev: LayerNode[] = layersRef.current) => {
+    const prevActiveId = activeLayerIdRef.current;
+    const apply = ([stack, activeId]: [LayerNode[], string]) => {
+      layersRef.current = stack;
+      activeLayerIdRef.current = activeId;
+      setLayers(stack);
+      setActiveLayerId(activeId);
+      eventBus.emit(Events.REFRESH_COMPOSITE);
+    };
+    apply([next, nextActiveId]);
+    history.pushState<[LayerNode[], string]>(label, [prev, prevActiveId], [next, nextActiveId], apply, bytes);
+  };
+
+  // Release GPU buffers of a replaced paint surface (three uploads them again if undo brings it back)
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
   // Event Listeners
   useEffect(() => {
     const handleProjectCommand = () => {
+       // Editing a mask: project straight into it instead of creating a layer
+       if (paintTargetRef.current === 'mask') {
+          eventBus.emit(Events.REQ_BAKE_PROJECTION, { layerId: activeLayerIdRef.current, target: 'mask' });
+          return;
+       }
+
        // 1. Create a new layer specifically for this projection
        const projectionLayer = LayerAPI.create('Projection');
        
        // 2. Add it to state
-       setLayers(prev => [...prev, projectionLayer]);
-       setActiveLayerId(projectionLayer.id);
+       commitLayers('Add Layer', LayerAPI.insert(layersRef.current, projectionLayer, activeLayerIdRef.current), projectionLayer.id);
        
        // 3. Trigger projection after a brief delay to allow React to render the new layer into the Scene's closure
        // This ensures the Scene receives the updated 'layers' prop before we ask it to bake to one of them.
@@ -55,45 +144,69 @@ function App() {
     };
 
     const handleCurveClear = () => {
+       const prev = curvePointsRef.current;
+       if (prev.length === 0) return;
        setCurvePoints([]);
+       history.pushState('Clear Curve', prev, [] as CurvePoint[], setCurvePoints);
+    };
+
+    // Freehand strokes: snapshot on PAINT_START, store touched tiles on PAINT_END
+    const handlePaintStart = (data: { layerId: string; target: PaintTarget; tool: BrushSettings['mode']; channels: MaterialChannel[] }) => {
+       const layer = LayerAPI.findLayer(layersRef.current, data.layerId);
+       if (!layer) return;
+       const label = TOOL_LABELS[data.tool] ?? 'Brush Stroke';
+       history.beginPixels(LayerAPI.getPaintSurfaces(layer, data.target, data.channels), data.target === 'mask' ? `${label} (Mask)` : label);
+    };
+
+    const handlePaintEnd = () => {
+       history.endPixels();
+    };
+
+    const handleCameraChanged = (pose: CameraPose) => {
+       cameraPoseRef.current = pose;
     };
 
     const unsubProject = eventBus.on(Events.CMD_PROJECT_STENCIL, handleProjectCommand);
     const unsubClear = eventBus.on(Events.CMD_CURVE_CLEAR, handleCurveClear);
+    const unsubCamera = eventBus.on(Events.CAMERA_CHANGED, handleCameraChanged);
+    const unsubPaintStart = eventBus.on(Events.PAINT_START, handlePaintStart);
+    const unsubPaintEnd = eventBus.on(Events.PAINT_END, handlePaintEnd);
     
-    return () => { unsubProject(); unsubClear(); };
+    return () => { unsubProject(); unsubClear(); unsubCamera(); unsubPaintStart(); unsubPaintEnd(); };
   }, []);
 
   const handleAddLayer = () => {
-    const newLayer = LayerAPI.create(`Layer ${layers.length + 1}`);
-    setLayers(prev => [...prev, newLayer]);
-    setActiveLayerId(newLayer.id);
-    eventBus.emit(Events.REFRESH_COMPOSITE);
+    const newLayer = LayerAPI.create(`Layer ${LayerAPI.getLayers(layers).length + 1}`);
+    commitLayers('Add Layer', LayerAPI.insert(layers, newLayer, activeLayerId), newLayer.id);
+  };
+
+  const handleAddGroup = () => {
+    const group = LayerAPI.createGroup(`Group ${LayerAPI.getLayers(layers).length + 1}`);
+    commitLayers('Add Group', LayerAPI.insert(layers, group, activeLayerId), group.id);
   };
 
   const handleRemoveLayer = (id: string) => {
+    const removed = LayerAPI.findNode(layers, id);
     const newLayers = LayerAPI.remove(layers, id);
-    if (newLayers.length === layers.length) return; // No change
+    if (!removed || newLayers === layers) return; // No change
     
-    setLayers(newLayers);
-    if (activeLayerId === id) {
-      setActiveLayerId(newLayers[newLayers.length - 1].id);
-    }
-    eventBus.emit(Events.REFRESH_COMPOSITE);
+    const remaining = LayerAPI.getLayers(newLayers);
+    const nextActiveId = LayerAPI.findNode(newLayers, activeLayerId) ? activeLayerId : remaining[remaining.length - 1].id;
+    // The removed canvases stay alive for as long as this entry can be undone
+    commitLayers(LayerAPI.isGroup(removed) ? 'Delete Group' : 'Delete Layer', newLayers, nextActiveId, nodeBytes(removed));
   };
 
   const handleToggleVisibility = (id: string) => {
-    setLayers(prev => LayerAPI.toggleVisibility(prev, id));
-    eventBus.emit(Events.REFRESH_COMPOSITE);
+    commitLayers('Toggle Visibility', LayerAPI.toggleVisibility(layers, id));
   };
 
   const handleUpdateLayerTexture = (id: string, imageSrc: string) => {
-    const layer = layers.find(l => l.id === id);
+    const layer = LayerAPI.findLayer(layers, id);
     if (layer) {
       const img = new Image();
       img.crossOrigin = "Anonymous";
       img.onload = () => {
-        LayerAPI.drawTexture(layer, img);
+        history.recordPixels(layer, 'Generate Texture', () => LayerAPI.drawTexture(layer, img));
         eventBus.emit(Events.REFRESH_COMPOSITE);
       };
       img.src = imageSrc;
@@ -101,22 +214,323 @@ function App() {
   };
 
   const handleFillLayer = () => {
-     const layer = layers.find(l => l.id === activeLayerId);
+     const layer = activeLayer;
      if (!layer) return;
      
-     LayerAPI.fill(layer, brush.color);
+     if (effectivePaintTarget === 'mask') {
+        history.recordPixels(layer.mask!, 'Fill Mask', () => LayerAPI.fillMask(layer));
+     } else {
+        history.recordPixels(layer, 'Fill Layer', () => LayerAPI.fill(layer, brush.color));
+     }
      eventBus.emit(Events.REFRESH_COMPOSITE);
   };
 
   const handleReorderLayer = (id: string, direction: 'up' | 'down') => {
-    setLayers(prev => LayerAPI.reorder(prev, id, direction));
-    eventBus.emit(Events.REFRESH_COMPOSITE);
+    commitLayers('Reorder Layer', LayerAPI.reorder(layers, id, direction));
   };
 
   const handleRenameLayer = (id: string, newName: string) => {
-     setLayers(prev => LayerAPI.rename(prev, id, newName));
+     commitLayers('Rename Layer', LayerAPI.rename(layers, id, newName));
+  };
+
+  const handleToggleClipped = (id: string) => {
+     commitLayers('Clipping', LayerAPI.toggleClipped(layers, id));
+  };
+
+  const handleToggleLockAlpha = (id: string) => {
+     commitLayers('Lock Alpha', LayerAPI.toggleLockAlpha(layers, id));
+  };
+
+  const handleSetBlendMode = (id: string, blendMode: LayerGroup['blendMode']) => {
+     commitLayers('Blend Mode', LayerAPI.setBlendMode(layers, id, blendMode));
+  };
+
+  // Opacity slider: preview live, commit one history step when the drag ends
+  const opacityEditRef = useRef<LayerNode[] | null>(null);
+
+  const handleOpacityChange = (id: string, opacity: number) => {
+     if (!opacityEditRef.current) opacityEditRef.current = layersRef.current;
+     const next = LayerAPI.setOpacity(layersRef.current, id, opacity);
+     layersRef.current = next;
+     setLayers(next);
+     eventBus.emit(Events.REFRESH_COMPOSITE);
+  };
+
+  const handleOpacityCommit = () => {
+     const before = opacityEditRef.current;
+     opacityEditRef.current = null;
+     if (!before || before === layersRef.current) return;
+     commitLayers('Layer Opacity', layersRef.current, undefined, 0, before);
+  };
+
+  const handleDuplicateLayer = (id: string) => {
+    const newLayers = LayerAPI.duplicate(layers, id);
+    const loc = LayerAPI.locate(newLayers, id);
+    if (!loc) return;
+    const copy = loc.siblings[loc.index + 1];
+    commitLayers('Duplicate Layer', newLayers, copy.id, nodeBytes(copy));
+  };
+
+  const handleMergeDown = (id: string) => {
+    const newLayers = LayerAPI.mergeDown(layers, id);
+    if (newLayers === layers) return;
+    const loc = LayerAPI.locate(layers, id)!;
+    const below = loc.siblings[loc.index - 1];
+    // Both source layers stay alive for undo
+    commitLayers('Merge Down', newLayers, below.id, LAYER_BYTES);
+    setPaintTarget('color');
+  };
+
+  const handleMergeVisible = () => {
+    const newLayers = LayerAPI.mergeVisible(layers);
+    if (newLayers === layers) return;
+    const merged = newLayers[newLayers.length - 1];
+    commitLayers('Merge Visible', newLayers, merged.id, LAYER_BYTES);
+    setPaintTarget('color');
+  };
+
+  const handleFlatten = () => {
+    const newLayers = LayerAPI.flatten(layers);
+    commitLayers('Flatten Image', newLayers, newLayers[0].id, LAYER_BYTES);
+    setPaintTarget('color');
+  };
+
+  const handleGroupLayer = (id: string) => {
+    const newLayers = LayerAPI.group(layers, id, `Group ${LayerAPI.getLayers(layers).length + 1}`);
+    const loc = LayerAPI.locate(newLayers, id);
+    commitLayers('Group Layer', newLayers, loc?.parentId ?? activeLayerId);
+  };
+
+  const handleUngroup = (id: string) => {
+    const group = LayerAPI.findNode(layers, id);
+    if (!group || !LayerAPI.isGroup(group)) return;
+    const top = group.children[group.children.length - 1];
+    commitLayers('Ungroup', LayerAPI.ungroup(layers, id), top ? top.id : activeLayerId);
   };
 
+  const handleMoveLayer = (id: string, targetId: string, position: 'above' | 'below' | 'inside') => {
+    const newLayers = LayerAPI.move(layers, id, targetId, position);
+    if (newLayers !== layers) commitLayers('Move Layer', newLayers);
+  };
+
+  // Collapsing is view state only and not recorded in history
+  const handleToggleCollapsed = (id: string) => {
+    const next = LayerAPI.toggleCollapsed(layers, id);
+    layersRef.current = next;
+    setLayers(next);
+  };
+
+  const handleSelectLayer = (id: string, target: PaintTarget = 'color') => {
+     setActiveLayerId(id);
+     setPaintTarget(target);
+  };
+
+  const handleAddMask = (id: string) => {
+     commitLayers('Add Mask', LayerAPI.addMask(layers, id), id, LAYER_BYTES);
+     setPaintTarget('mask');
+  };
+
+  const handleRemoveMask = (id: string) => {
+     commitLayers('Delete Mask', LayerAPI.removeMask(layers, id), undefined, LAYER_BYTES);
+     setPaintTarget('color');
+  };
+
+  const handleInvertMask = (id: string) => {
+     const mask = LayerAPI.findLayer(layers, id)?.mask;
+     if (!mask) return;
+     history.recordPixels(mask, 'Invert Mask', () => LayerAPI.invertMask(mask));
+     eventBus.emit(Events.REFRESH_COMPOSITE);
+  };
+
+  const handleApplyMask = (id: string) => {
+     const layer = LayerAPI.findLayer(layers, id);
+     if (!layer?.mask) return;
+     history.batch('Apply Mask', () => {
+        history.recordPixels(LayerAPI.getChannelSurfaces(layer), 'Apply Mask', () => LayerAPI.applyMask(layer));
+        commitLayers('Apply Mask', LayerAPI.removeMask(layers, id), undefined, LAYER_BYTES);
+     });
+     setPaintTarget('color');
+  };
+
+  // Swap the paint surface as one undo step. Curve anchors were placed on the previous surface, so they go with it.
+  const swapGeometry = (label: string, next: THREE.BufferGeometry, name: string) => {
+     type MeshState = { geometry: THREE.BufferGeometry; meshName: string; curvePoints: CurvePoint[] };
+     const apply = (s: MeshState) => {
+        setGeometry(s.geometry);
+        setMeshName(s.meshName);
+        setCurvePoints(s.curvePoints);
+        eventBus.emit(Events.REFRESH_COMPOSITE);
+     };
+     const before: MeshState = { geometry, meshName, curvePoints: curvePointsRef.current };
+     const after: MeshState = { geometry: next, meshName: name, curvePoints: [] };
+     const bytes = Object.values(geometry.attributes).reduce((sum, a) => sum + a.array.byteLength, 0);
+     apply(after);
+     history.pushState(label, before, after, apply, bytes);
+  };
+
+  const handleImportMesh = async (file: File) => {
+     let imported: THREE.BufferGeometry;
+     try {
+        imported = await MeshAPI.load(file);
+     } catch (e) {
+        console.error(e);
+        alert(`Could not import '${file.name}': ${(e as Error).message}`);
+        return;
+     }
+     swapGeometry('Import Mesh', imported, file.name);
+  };
+
+  const handleImportBrushes = async (files: File[]) => {
+     const tips: LibraryTip[] = [];
+     const imported: BrushPreset[] = [];
+     for (const file of files) {
+        try {
+           const result = await TipLibraryAPI.importFile(file);
+           tips.push(...result.tips);
+           imported.push(...await PresetAPI.withThumbnails(result.presets));
+        } catch (err) {
+           console.warn(err);
+           alert(`Could not import '${file.name}'. Only sampled ABR tips and GIMP GBR/GIH brushes are supported.`);
+        }
+     }
+     if (tips.length === 0) return;
+     const library = [...tipLibrary, ...tips];
+     setTipLibrary(library);
+     setPresets([...presets, ...imported]);
+     TipLibraryAPI.save(library);
+  };
+
+  const handleRemoveTip = (id: string) => {
+     const library = tipLibrary.filter(t => t.id !== id);
+     setTipLibrary(library);
+     TipLibraryAPI.save(library);
+  };
+
+  // Library changes are one undo step together with the stencil they leave open
+  const commitStencils = (label: string, library: StencilDocument[], next: StencilSettings) => {
+     type StencilState = { library: StencilDocument[]; stencil: StencilSettings };
+     const apply = (state: StencilState) => {
+        setStencils(state.library);
+        setStencil(state.stencil);
+     };
+     const before = { library: stencilLibrary, stencil };
+     const after = { library, stencil: next };
+     apply(after);
+     history.pushState(label, before, after, apply);
+  };
+
+  const handleSelectStencil = (id: string) => {
+     const doc = stencilLibrary.find(d => d.id === id);
+     if (!doc || id === stencil.id) return;
+     commitStencils('Switch Stencil', stencilLibrary, StencilAPI.openDocument(stencil, doc));
+  };
+
+  const handleAddStencil = () => {
+     const doc = StencilAPI.createDocument(`Stencil ${stencilLibrary.length + 1}`);
+     commitStencils('New Stencil', [...stencilLibrary, doc], StencilAPI.openDocument(stencil, doc));
+  };
+
+  const handleRemoveStencil = (id: string) => {
+     if (stencilLibrary.length <= 1) return; // The edited stencil always has an entry
+     const library = stencilLibrary.filter(d => d.id !== id);
+     const next = id === stencil.id ? StencilAPI.openDocument(stencil, library[0]) : stencil;
+     commitStencils('Delete Stencil', library, next);
+  };
+
+  // A rig file replaces the lattice and placement of the edited stencil; its image stays
+  const handleLoadStencilRig = async (file: File) => {
+     let rig: StencilRig;
+     try {
+        rig = await StencilAPI.importRig(file);
+     } catch (e) {
+        console.error(e);
+        alert(`Could not load '${file.name}'. Choose a stencil rig file.`);
+        return;
+     }
+     const apply = (r: StencilRig) => setStencil(prev => ({ ...prev, ...r }));
+     const before = StencilAPI.getRig(stencil);
+     apply(rig);
+     history.pushState('Load Stencil Rig', before, rig, apply);
+  };
+
+  const handleResetMesh = () => swapGeometry('Reset Mesh', MeshAPI.createDefault(), 'Sphere');
+
+  const handleSaveProject = () => {
+     const state: ProjectState = {
+        geometry, meshName, layers, activeLayerId, brush, presets, stencil, stencils: stencilLibrary, symmetry, curvePoints,
+        camera: cameraPoseRef.current
+     };
+     const baseName = meshName.replace(/\.[^.]+$/, '') || 'project';
+     ProjectAPI.save(state, `${baseName}${PROJECT_EXTENSION}`);
+  };
+
+  const handleExportTextures = async (settings: ExportSettings) => {
+     const baseName = meshName.replace(/\.[^.]+$/, '') || 'texture';
+     try {
+        await ExportAPI.exportTextures(layers, geometry, settings, baseName);
+     } catch (e) {
+        console.error(e);
+        alert(`Export failed: ${(e as Error).message}`);
+     }
+  };
+
+  const handleOpenProject = async (file: File) => {
+     let state: ProjectState;
+     try {
+        state = await ProjectAPI.load(file);
+     } catch (e) {
+        console.error(e);
+        alert(`Could not open '${file.name}': ${(e as Error).message}`);
+        return;
+     }
+     setGeometry(state.geometry);
+     setMeshName(state.meshName);
+     setLayers(state.layers);
+     setActiveLayerId(state.activeLayerId);
+     setBrush(state.brush);
+     // Project presets join the library rather than replacing it
+     setPresets(prev => PresetAPI.merge(prev, state.presets));
+     setStencil(state.stencil);
+     setStencils(state.stencils);
+     setSymmetry(state.symmetry);
+     setCurvePoints(state.curvePoints);
+     history.clear(); // Entries reference the previous project's canvases
+     if (state.camera) {
+        cameraPoseRef.current = state.camera;
+        eventBus.emit(Events.CMD_SET_CAMERA, state.camera);
+     }
+     eventBus.emit(Events.REFRESH_COMPOSITE);
+  };
+
+  // Keyboard Shortcuts (Ctrl+S Save, Ctrl+O Open, Ctrl+Z Undo, Ctrl+Shift+Z / Ctrl+Y Redo)
+  const saveShortcutRef = useRef(handleSaveProject);
+  saveShortcutRef.current = handleSaveProject;
+  const openInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      const target = e.target as HTMLElement;
+      const isTextInput = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA';
+      if (key === 'z' && !isTextInput) {
+        e.preventDefault();
+        if (e.shiftKey) history.redo(); else history.undo();
+      } else if (key === 'y' && !isTextInput) {
+        e.preventDefault();
+        history.redo();
+      } else if (key === 's') {
+        e.preventDefault();
+        saveShortcutRef.current();
+      } else if (key === 'o') {
+        e.preventDefault();
+        openInputRef.current?.click();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   return (
     <div className="flex w-screen h-screen bg-[#111] overflow-hidden font-sans">
       <Toolbar 
@@ -126,19 +540,40 @@ function App() {
          setStencil={setStencil}
          axisWidget={axisWidget}
          setAxisWidget={setAxisWidget}
+         symmetry={symmetry}
+         setSymmetry={setSymmetry}
          onFillLayer={handleFillLayer}
          curvePointsCount={curvePoints.length}
+         meshName={meshName}
+         onImportMesh={handleImportMesh}
+         onResetMesh={handleResetMesh}
+         presets={presets}
+         setPresets={setPresets}
+         tipLibrary={tipLibrary}
+         onImportBrushes={handleImportBrushes}
+         onRemoveTip={handleRemoveTip}
+         onSaveProject={handleSaveProject}
+         onOpenProject={handleOpenProject}
+         onExportTextures={handleExportTextures}
+         stencils={stencilLibrary}
+         onSelectStencil={handleSelectStencil}
+         onAddStencil={handleAddStencil}
+         onRemoveStencil={handleRemoveStencil}
+         onLoadStencilRig={handleLoadStencilRig}
       />
       
       <div className="flex-1 relative">
         <Scene 
           brush={brush} 
+          geometry={geometry}
           layers={layers} 
           setLayers={setLayers}
           activeLayerId={activeLayerId}
+          paintTarget={effectivePaintTarget}
           stencil={stencil}
           setStencil={setStencil}
           axisWidget={axisWidget}
+          symmetry={symmetry}
           curvePoints={curvePoints}
           setCurvePoints={setCurvePoints}
         />
@@ -146,25 +581,60 @@ function App() {
         {/* Info Overlay */}
         <div className="absolute top-4 left-4 pointer-events-none opacity-50 text-xs text-white">
           <p>PolyPaint Pro v1.2</p>
-          <p className="mt-1">Active Layer: {layers.find(l => l.id === activeLayerId)?.name}</p>
+          <p className="mt-1">Mesh: {meshName}</p>
+          <p className="mt-1">Active Layer: {activeLayer?.name}{effectivePaintTarget === 'mask' && ' (Mask)'}</p>
           <p className="mt-1 opacity-70">Alt + Left Drag to Rotate View</p>
-          {stencil.visible && stencil.mode === 'edit' && <p className="mt-1 text-green-400">Stencil Edit: {stencil.tool === 'select' ? 'Move Points' : 'Add Loop (Click near edge)'}</p>}
+          {stencil.visible && stencil.mode === 'edit' && <p className="mt-1 text-green-400">Stencil Edit: {stencil.tool === 'select' ? 'Move Points (Shift to multi-select)' : stencil.tool === 'loop' ? 'Add Loop (Click near edge)' : 'Remove Loop (Click a cut line)'}</p>}
           {stencil.visible && stencil.mode === 'paint' && <p className="mt-1 text-blue-400">Stencil Paint Mode: Ready to Project or Paint</p>}
           {brush.mode === 'curve' && <p className="mt-1 text-purple-400">Curve Mode: Shift + Click to add points. Drag handles to adjust.</p>}
         </div>
       </div>
 
-      <LayerManager
-        layers={layers}
-        activeLayerId={activeLayerId}
-        onSelectLayer={setActiveLayerId}
-        onAddLayer={handleAddLayer}
-        onRemoveLayer={handleRemoveLayer}
-        onToggleVisibility={handleToggleVisibility}
-        onUpdateLayerTexture={handleUpdateLayerTexture}
-        onReorderLayer={handleReorderLayer}
-        onRenameLayer={handleRenameLayer}
+      <input
+        ref={openInputRef}
+        type="file"
+        className="hidden"
+        accept={PROJECT_EXTENSION}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleOpenProject(file);
+          e.target.value = '';
+        }}
       />
+
+      <div className="flex flex-col h-full">
+        <LayerManager
+          layers={layers}
+          activeLayerId={activeLayerId}
+          paintTarget={effectivePaintTarget}
+          onSelectLayer={handleSelectLayer}
+          onAddLayer={handleAddLayer}
+          onRemoveLayer={handleRemoveLayer}
+          onToggleVisibility={handleToggleVisibility}
+          onUpdateLayerTexture={handleUpdateLayerTexture}
+          onReorderLayer={handleReorderLayer}
+          onRenameLayer={handleRenameLayer}
+          onSetBlendMode={handleSetBlendMode}
+          onToggleClipped={handleToggleClipped}
+          onToggleLockAlpha={handleToggleLockAlpha}
+          onAddMask={handleAddMask}
+          onRemoveMask={handleRemoveMask}
+          onInvertMask={handleInvertMask}
+          onApplyMask={handleApplyMask}
+          onOpacityChange={handleOpacityChange}
+          onOpacityCommit={handleOpacityCommit}
+          onDuplicateLayer={handleDuplicateLayer}
+          onMergeDown={handleMergeDown}
+          onMergeVisible={handleMergeVisible}
+          onFlatten={handleFlatten}
+          onAddGroup={handleAddGroup}
+          onGroupLayer={handleGroupLayer}
+          onUngroup={handleUngroup}
+          onMoveLayer={handleMoveLayer}
+          onToggleCollapsed={handleToggleCollapsed}
+        />
+        <HistoryPanel />
+      </div>
     </div>
   );
 }
@@ -3,19 +3,27 @@ import React, { useMemo } from 'react';
 import { Line, Billboard } from '@react-three/drei';
 import { ThreeEvent } from '@react-three/fiber';
 import * as THREE from 'three';
-import { Vec3 } from '../types';
+import { CurvePoint } from '../types';
 
 interface BezierCurveProps {
-  points: Vec3[];
+  points: CurvePoint[];
+  // Distance the overlay floats above the surface, along each point's normal
+  lift: number;
   onPointDown: (index: number, e: ThreeEvent<PointerEvent>) => void;
 }
 
-export const BezierCurve: React.FC<BezierCurveProps> = ({ points, onPointDown }) => {
+// Lifts a point off the surface along its normal (radially for points saved without one)
+const liftPoint = (v: CurvePoint, lift: number): THREE.Vector3 => {
+    const p = new THREE.Vector3(v.x, v.y, v.z);
+    const n = v.normal ? new THREE.Vector3(v.normal.x, v.normal.y, v.normal.z) : p.clone();
+    return p.addScaledVector(n.normalize(), lift);
+};
+
+export const BezierCurve: React.FC<BezierCurveProps> = ({ points, lift, onPointDown }) => {
     const path = useMemo(() => {
         if (points.length < 2) return null;
         const curvePath = new THREE.CurvePath<THREE.Vector3>();
-        const offset = 0.05; 
-        const project = (v: Vec3) => new THREE.Vector3(v.x, v.y, v.z).normalize().multiplyScalar(2.0 + offset);
+        const project = (v: CurvePoint) => liftPoint(v, lift);
 
         for (let i = 0; i < points.length - 3; i += 3) {
             curvePath.add(new THREE.CubicBezierCurve3(
@@ -26,7 +34,7 @@ export const BezierCurve: React.FC<BezierCurveProps> = ({ points, onPointDown })
             ));
         }
         return curvePath;
-    }, [points]);
+    }, [points, lift]);
 
     const linePoints = useMemo(() => {
         if (!path || path.curves.length === 0) return null;
@@ -37,7 +45,7 @@ export const BezierCurve: React.FC<BezierCurveProps> = ({ points, onPointDown })
     const handles = useMemo(() => {
         return points.map((p, i) => {
              const isAnchor = i % 3 === 0;
-             const pos = new THREE.Vector3(p.x, p.y, p.z).normalize().multiplyScalar(2.0 + 0.05);
+             const pos = liftPoint(p, lift);
              
              return (
                  <Billboard 
@@ -76,19 +84,19 @@ export const BezierCurve: React.FC<BezierCurveProps> = ({ points, onPointDown })
                  </Billboard>
              );
         });
-    }, [points, onPointDown]);
+    }, [points, lift, onPointDown]);
 
     // Visualize Control Lines
     const controlLines = useMemo(() => {
         const lines = [];
-        const project = (v: Vec3) => new THREE.Vector3(v.x, v.y, v.z).normalize().multiplyScalar(2.05);
+        const project = (v: CurvePoint) => liftPoint(v, lift);
         for(let i=0; i < points.length - 1; i++) {
             // Draw lines between Anchor and its Control points
             if (i % 3 === 0 && i+1 < points.length) lines.push([project(points[i]), project(points[i+1])]); // Anchor -> Next Control
             if (i % 3 === 2 && i+1 < points.length) lines.push([project(points[i]), project(points[i+1])]); // Prev Control -> Anchor
         }
         return lines;
-    }, [points]);
+    }, [points, lift]);
 
     return (
         <group>
@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import { DynamicsCurve } from '../types';
+import { MathUtils } from '../services/math';
+
+interface CurveEditorProps {
+  curve: DynamicsCurve;
+  onChange: (curve: DynamicsCurve) => void;
+}
+
+const W = 160;
+const H = 80;
+const toSvg = (p: { x: number; y: number }) => ({ x: p.x * W, y: (1 - p.y) * H });
+
+// Response curve editor: drag points, click empty space to add one, double-click a point to remove it.
+// The end points stay pinned to x = 0 and x = 1.
+export const CurveEditor: React.FC<CurveEditorProps> = ({ curve, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const toCurve = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: MathUtils.clamp((e.clientX - rect.left) / rect.width, 0, 1),
+      y: MathUtils.clamp(1 - (e.clientY - rect.top) / rect.height, 0, 1)
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.target !== svgRef.current) return;
+    const p = toCurve(e);
+    const next = [...curve, p].sort((a, b) => a.x - b.x);
+    onChange(next);
+    setDragIndex(next.indexOf(p));
+    svgRef.current!.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragIndex === null) return;
+    const p = toCurve(e);
+    const last = curve.length - 1;
+    // Keep points ordered: a point cannot pass its neighbours
+    const x = dragIndex === 0 ? 0 : dragIndex === last ? 1
+      : MathUtils.clamp(p.x, curve[dragIndex - 1].x, curve[dragIndex + 1].x);
+    onChange(curve.map((q, i) => (i === dragIndex ? { x, y: p.y } : q)));
+  };
+
+  const handleRemove = (index: number) => {
+    if (index === 0 || index === curve.length - 1) return;
+    onChange(curve.filter((_, i) => i !== index));
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${W} ${H}`}
+      className="w-full h-20 bg-neutral-950 border border-neutral-700 rounded cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDragIndex(null)}
+    >
+      <line x1={0} y1={H} x2={W} y2={0} stroke="#404040" strokeDasharray="3 3" pointerEvents="none" />
+      <polyline
+        points={curve.map(p => { const s = toSvg(p); return `${s.x},${s.y}`; }).join(' ')}
+        fill="none"
+        stroke="#60a5fa"
+        strokeWidth={1.5}
+        pointerEvents="none"
+      />
+      {curve.map((p, i) => {
+        const s = toSvg(p);
+        return (
+          <circle
+            key={i}
+            cx={s.x}
+            cy={s.y}
+            r={4}
+            className={dragIndex === i ? 'fill-white' : 'fill-blue-400 hover:fill-white'}
+            onPointerDown={(e) => { setDragIndex(i); svgRef.current!.setPointerCapture(e.pointerId); }}
+            onDoubleClick={() => handleRemove(i)}
+          />
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HistoryState } from '../types';
+import { IconHistory, IconUndo, IconRedo, IconChevronUp, IconChevronDown } from './Icons';
+import { history } from '../services/historyService';
+import { eventBus, Events } from '../services/eventBus';
+
+const formatMB = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const HistoryPanel: React.FC = () => {
+  const [state, setState] = useState<HistoryState>(() => history.getState());
+  const [collapsed, setCollapsed] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => eventBus.on(Events.HISTORY_CHANGED, (s: HistoryState) => setState(s)), []);
+
+  // Keep the newest applied step in view
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [state.entries.length]);
+
+  return (
+    <div className="flex flex-col bg-neutral-900 border-l border-t border-neutral-700 w-72 text-sm">
+      <div className="p-3 font-bold flex justify-between items-center text-neutral-200">
+        <button onClick={() => setCollapsed(!collapsed)} className="flex items-center gap-2">
+          <IconHistory className="w-4 h-4" />
+          History
+          {collapsed ? <IconChevronUp className="w-3 h-3 text-neutral-500" /> : <IconChevronDown className="w-3 h-3 text-neutral-500" />}
+        </button>
+        <div className="flex gap-1">
+          <button
+            onClick={() => history.undo()}
+            disabled={state.index === 0}
+            className="p-1 rounded text-neutral-400 hover:text-white hover:bg-neutral-700 disabled:text-neutral-700 disabled:hover:bg-transparent"
+            title="Undo (Ctrl+Z)"
+          >
+            <IconUndo className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => history.redo()}
+            disabled={state.index === state.entries.length}
+            className="p-1 rounded text-neutral-400 hover:text-white hover:bg-neutral-700 disabled:text-neutral-700 disabled:hover:bg-transparent"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <IconRedo className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {!collapsed && (
+        <>
+          <div ref={listRef} className="max-h-40 overflow-y-auto px-2 space-y-0.5">
+            <button
+              onClick={() => history.jumpTo(0)}
+              className={`w-full text-left px-2 py-1 rounded text-xs ${state.index === 0 ? 'bg-neutral-800 text-blue-400' : 'text-neutral-500 hover:bg-neutral-800'}`}
+            >
+              Initial State
+            </button>
+            {state.entries.map((entry, i) => (
+              <button
+                key={entry.id}
+                onClick={() => history.jumpTo(i + 1)}
+                className={`w-full text-left px-2 py-1 rounded text-xs truncate transition-colors
+                  ${i + 1 === state.index ? 'bg-neutral-800 text-blue-400' : ''}
+                  ${i + 1 > state.index ? 'text-neutral-600 italic hover:bg-neutral-800' : 'text-neutral-300 hover:bg-neutral-800'}`}
+              >
+                {entry.label}
+              </button>
+            ))}
+          </div>
+          <div className="px-3 py-2 text-[10px] text-neutral-500 flex justify-between">
+            <span>{state.entries.length} steps</span>
+            <span>{formatMB(state.usedBytes)} / {formatMB(state.budgetBytes)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
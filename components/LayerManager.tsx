@@ -1,31 +1,79 @@
-import React, { useState } from 'react';
-import { Layer } from '../types';
-import { IconLayer, IconEye, IconEyeOff, IconTrash, IconPlus, IconSparkles, IconChevronUp, IconChevronDown } from './Icons';
+import React, { useEffect, useState } from 'react';
+import { LayerNode, LayerGroup, BlendMode, PaintTarget } from '../types';
+import { BLEND_MODES } from '../constants';
+import { IconLayer, IconEye, IconEyeOff, IconTrash, IconPlus, IconSparkles, IconChevronUp, IconChevronDown, IconChevronRight, IconMask, IconFolder } from './Icons';
 import { generateTexture } from '../services/geminiService';
 import { eventBus, Events } from '../services/eventBus';
+import { LayerAPI } from '../services/layerService';
 
 interface LayerManagerProps {
-  layers: Layer[];
+  layers: LayerNode[];
   activeLayerId: string;
-  onSelectLayer: (id: string) => void;
+  paintTarget: PaintTarget;
+  onSelectLayer: (id: string, target?: PaintTarget) => void;
   onAddLayer: () => void;
   onRemoveLayer: (id: string) => void;
   onToggleVisibility: (id: string) => void;
   onUpdateLayerTexture: (id: string, imageSrc: string) => void;
   onReorderLayer: (id: string, direction: 'up' | 'down') => void;
   onRenameLayer: (id: string, newName: string) => void;
+  onSetBlendMode: (id: string, blendMode: LayerGroup['blendMode']) => void;
+  onAddMask: (id: string) => void;
+  onRemoveMask: (id: string) => void;
+  onInvertMask: (id: string) => void;
+  onApplyMask: (id: string) => void;
+  onOpacityChange: (id: string, opacity: number) => void;
+  onOpacityCommit: () => void;
+  onDuplicateLayer: (id: string) => void;
+  onMergeDown: (id: string) => void;
+  onMergeVisible: () => void;
+  onFlatten: () => void;
+  onAddGroup: () => void;
+  onGroupLayer: (id: string) => void;
+  onUngroup: (id: string) => void;
+  onMoveLayer: (id: string, targetId: string, position: DropPosition) => void;
+  onToggleCollapsed: (id: string) => void;
+  onToggleClipped: (id: string) => void;
+  onToggleLockAlpha: (id: string) => void;
+}
+
+type DropPosition = 'above' | 'below' | 'inside';
+
+interface ContextMenuState {
+  layerId: string;
+  x: number;
+  y: number;
 }
 
 const LayerManager: React.FC<LayerManagerProps> = ({
   layers,
   activeLayerId,
+  paintTarget,
   onSelectLayer,
   onAddLayer,
   onRemoveLayer,
   onToggleVisibility,
   onUpdateLayerTexture,
   onReorderLayer,
-  onRenameLayer
+  onRenameLayer,
+  onSetBlendMode,
+  onAddMask,
+  onRemoveMask,
+  onInvertMask,
+  onApplyMask,
+  onOpacityChange,
+  onOpacityCommit,
+  onDuplicateLayer,
+  onMergeDown,
+  onMergeVisible,
+  onFlatten,
+  onAddGroup,
+  onGroupLayer,
+  onUngroup,
+  onMoveLayer,
+  onToggleCollapsed,
+  onToggleClipped,
+  onToggleLockAlpha
 }) => {
   const [aiPrompt, setAiPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
@@ -35,6 +83,28 @@ const LayerManager: React.FC<LayerManagerProps> = ({
   const [editingId, setEditingId] = useState<string | null>(null);
   const [tempName, setTempName] = useState('');
 
+  // Selected node (layer or group)
+  const activeLayer = LayerAPI.findNode(layers, activeLayerId);
+
+  // Drag & Drop State
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
+
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+
+  // Close the context menu on any outside click or Escape
+  useEffect(() => {
+    if (!contextMenu) return;
+    const close = () => setContextMenu(null);
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') close(); };
+    window.addEventListener('pointerdown', close);
+    window.addEventListener('keydown', handleKey);
+    return () => {
+      window.removeEventListener('pointerdown', close);
+      window.removeEventListener('keydown', handleKey);
+    };
+  }, [contextMenu]);
+
   const handleGenerate = async () => {
     if (!aiPrompt) return;
     setIsGenerating(true);
@@ -54,7 +124,7 @@ const LayerManager: React.FC<LayerManagerProps> = ({
     }
   };
 
-  const startEditing = (layer: Layer) => {
+  const startEditing = (layer: LayerNode) => {
     setEditingId(layer.id);
     setTempName(layer.name);
   };
@@ -71,109 +141,334 @@ const LayerManager: React.FC<LayerManagerProps> = ({
     if (e.key === 'Escape') setEditingId(null);
   };
 
+  // At least one paint layer must survive a delete
+  const canRemove = (node: LayerNode) => LayerAPI.getLayers(layers).length > LayerAPI.getLayers([node]).length;
+
+  const renderContextMenu = (menu: ContextMenuState) => {
+    const loc = LayerAPI.locate(layers, menu.layerId);
+    if (!loc) return null;
+    const { siblings, index } = loc;
+    const node = siblings[index];
+    const isGroup = LayerAPI.isGroup(node);
+    const kind = isGroup ? 'Group' : 'Layer';
+    const below = siblings[index - 1];
+    const layerCount = LayerAPI.getLayers(layers).length;
+
+    const items: ({ label: string; action: () => void; disabled?: boolean; danger?: boolean } | null)[] = [
+      { label: 'Rename', action: () => startEditing(node) },
+      { label: `Duplicate ${kind}`, action: () => onDuplicateLayer(node.id) },
+      { label: `Delete ${kind}`, action: () => onRemoveLayer(node.id), disabled: !canRemove(node), danger: true },
+      null,
+      isGroup
+        ? { label: 'Ungroup', action: () => onUngroup(node.id) }
+        : { label: 'Group Layer', action: () => onGroupLayer(node.id) },
+      isGroup
+        ? null
+        : { label: node.clipped ? 'Release Clipping' : 'Clip to Layer Below', action: () => onToggleClipped(node.id), disabled: !node.clipped && index === 0 },
+      isGroup
+        ? null
+        : node.mask
+          ? { label: 'Delete Mask', action: () => onRemoveMask(node.id) }
+          : { label: 'Add Mask', action: () => onAddMask(node.id) },
+      null,
+      { label: 'Merge Down', action: () => onMergeDown(node.id), disabled: !below || LayerAPI.isGroup(below) || !node.visible },
+      { label: 'Merge Visible', action: onMergeVisible, disabled: layerCount < 2 },
+      { label: 'Flatten Image', action: onFlatten, disabled: layerCount < 2 && layers.length < 2 }
+    ];
+
+    return (
+      <div
+        className="fixed z-50 w-44 py-1 bg-neutral-800 border border-neutral-600 rounded shadow-2xl text-xs"
+        style={{ left: Math.min(menu.x, window.innerWidth - 184), top: Math.min(menu.y, window.innerHeight - 240) }}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        {items.map((item, i) => item === null ? (
+          <div key={i} className="my-1 border-t border-neutral-700" />
+        ) : (
+          <button
+            key={i}
+            disabled={item.disabled}
+            onClick={() => { setContextMenu(null); item.action(); }}
+            className={`w-full text-left px-3 py-1.5 disabled:text-neutral-600 disabled:hover:bg-transparent ${item.danger ? 'text-red-400 hover:bg-red-900/30' : 'text-neutral-300 hover:bg-neutral-700'}`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const handleDragOver = (e: React.DragEvent, node: LayerNode) => {
+    if (!dragId || dragId === node.id) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const rect = e.currentTarget.getBoundingClientRect();
+    const rel = (e.clientY - rect.top) / rect.height;
+    // Rows are listed top of stack first, so the upper half of a row means "above" in the stack
+    let position: DropPosition = rel < 0.5 ? 'above' : 'below';
+    if (LayerAPI.isGroup(node) && rel > 0.25 && rel < 0.75) position = 'inside';
+    if (dropTarget?.id !== node.id || dropTarget.position !== position) setDropTarget({ id: node.id, position });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dragId && dropTarget) onMoveLayer(dragId, dropTarget.id, dropTarget.position);
+    setDragId(null);
+    setDropTarget(null);
+  };
+
+  // One row per node; groups render their children (top first) below themselves, indented
+  const renderNode = (node: LayerNode, siblings: LayerNode[], depth: number): React.ReactNode => {
+    const index = siblings.indexOf(node);
+    const isTop = index === siblings.length - 1;
+    const isBottom = index === 0;
+    const isGroup = LayerAPI.isGroup(node);
+    const isActive = activeLayerId === node.id;
+    const drop = dropTarget?.id === node.id ? dropTarget.position : null;
+    const blendLabel = node.blendMode === 'normal' || node.blendMode === 'pass-through'
+      ? null
+      : BLEND_MODES.find(m => m.value === node.blendMode)?.label;
+
+    return (
+      <React.Fragment key={node.id}>
+        <div
+          draggable={editingId !== node.id}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            e.dataTransfer.setData('text/plain', node.id);
+            setDragId(node.id);
+          }}
+          onDragOver={(e) => handleDragOver(e, node)}
+          onDrop={handleDrop}
+          onDragEnd={() => { setDragId(null); setDropTarget(null); }}
+          onClick={() => onSelectLayer(node.id)}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            onSelectLayer(node.id);
+            setContextMenu({ layerId: node.id, x: e.clientX, y: e.clientY });
+          }}
+          style={{ marginLeft: depth * 14 }}
+          className={`
+            relative flex items-center gap-2 p-2 rounded cursor-pointer transition-all border group
+            ${isActive 
+              ? 'bg-neutral-800 border-blue-500 shadow-[0_0_10px_rgba(59,130,246,0.1)]' 
+              : drop === 'inside' ? 'bg-neutral-800 border-yellow-500' : 'bg-transparent border-transparent hover:bg-neutral-800'}
+            ${dragId === node.id ? 'opacity-40' : ''}
+          `}
+        >
+          {drop === 'above' && <div className="absolute left-0 right-0 -top-0.5 h-0.5 bg-blue-400 pointer-events-none" />}
+          {drop === 'below' && <div className="absolute left-0 right-0 -bottom-0.5 h-0.5 bg-blue-400 pointer-events-none" />}
+
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleVisibility(node.id);
+            }}
+            className={`p-1 rounded hover:bg-neutral-600 ${node.visible ? 'text-neutral-400' : 'text-neutral-600'}`}
+          >
+            {node.visible ? <IconEye className="w-4 h-4" /> : <IconEyeOff className="w-4 h-4" />}
+          </button>
+
+          {isGroup && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleCollapsed(node.id);
+              }}
+              className="p-0.5 -mx-1 rounded text-yellow-500/80 hover:bg-neutral-600 flex items-center"
+              title={node.collapsed ? 'Expand' : 'Collapse'}
+            >
+              {node.collapsed ? <IconChevronRight className="w-3 h-3" /> : <IconChevronDown className="w-3 h-3" />}
+              <IconFolder className="w-4 h-4" />
+            </button>
+          )}
+
+          {!isGroup && node.clipped && (
+            <span className="text-blue-400 text-xs select-none -mx-1" title="Clipped to layer below">↳</span>
+          )}
+
+          {!isGroup && node.mask && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onSelectLayer(node.id, 'mask');
+              }}
+              className={`p-1 rounded hover:bg-neutral-600 ${isActive && paintTarget === 'mask' ? 'text-blue-400' : 'text-neutral-500'}`}
+              title="Edit Mask"
+            >
+              <IconMask className="w-4 h-4" />
+            </button>
+          )}
+
+          <div className="flex-1 min-w-0">
+            {editingId === node.id ? (
+              <input 
+                type="text"
+                value={tempName}
+                onChange={(e) => setTempName(e.target.value)}
+                onBlur={saveEditing}
+                onKeyDown={handleKeyDown}
+                autoFocus
+                onClick={(e) => e.stopPropagation()}
+                className="w-full bg-neutral-900 border border-blue-500 rounded px-1 py-0.5 text-white focus:outline-none"
+              />
+            ) : (
+              <div 
+                onDoubleClick={(e) => {
+                   e.stopPropagation();
+                   startEditing(node);
+                }}
+                className="truncate select-none text-neutral-300 w-full"
+                title="Double click to rename"
+              >
+                {node.name}
+              </div>
+            )}
+            {blendLabel && editingId !== node.id && (
+              <div className="text-[10px] text-neutral-500 truncate">{blendLabel}</div>
+            )}
+          </div>
+          
+          <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+             <button
+               onClick={(e) => { e.stopPropagation(); onReorderLayer(node.id, 'up'); }}
+               disabled={isTop}
+               className={`p-0.5 rounded ${isTop ? 'text-neutral-700' : 'text-neutral-500 hover:text-white hover:bg-neutral-600'}`}
+             >
+                <IconChevronUp className="w-3 h-3" />
+             </button>
+             <button
+               onClick={(e) => { e.stopPropagation(); onReorderLayer(node.id, 'down'); }}
+               disabled={isBottom}
+               className={`p-0.5 rounded ${isBottom ? 'text-neutral-700' : 'text-neutral-500 hover:text-white hover:bg-neutral-600'}`}
+             >
+                <IconChevronDown className="w-3 h-3" />
+             </button>
+          </div>
+
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemoveLayer(node.id);
+            }}
+            className="p-1 rounded text-neutral-600 hover:text-red-400 hover:bg-neutral-700 ml-1"
+            disabled={!canRemove(node)}
+          >
+            <IconTrash className="w-4 h-4" />
+          </button>
+        </div>
+
+        {isGroup && !node.collapsed && [...node.children].reverse().map(child => renderNode(child, node.children, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
   return (
-    <div className="flex flex-col h-full bg-neutral-900 border-l border-neutral-700 w-72 text-sm">
+    <div className="flex flex-col flex-1 min-h-0 bg-neutral-900 border-l border-neutral-700 w-72 text-sm">
       <div className="p-3 border-b border-neutral-700 font-bold flex justify-between items-center text-neutral-200">
         <div className="flex items-center gap-2">
           <IconLayer className="w-4 h-4" />
           Layers
         </div>
-        <button 
-          onClick={onAddLayer}
-          className="p-1 hover:bg-neutral-700 rounded transition-colors text-green-400"
-          title="Add Layer"
-        >
-          <IconPlus className="w-5 h-5" />
-        </button>
+        <div className="flex gap-1">
+          <button 
+            onClick={onAddGroup}
+            className="p-1 hover:bg-neutral-700 rounded transition-colors text-yellow-400"
+            title="Add Group"
+          >
+            <IconFolder className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={onAddLayer}
+            className="p-1 hover:bg-neutral-700 rounded transition-colors text-green-400"
+            title="Add Layer"
+          >
+            <IconPlus className="w-5 h-5" />
+          </button>
+        </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto p-2 space-y-1">
-        {/* Render reversed so top layer is at top of list */}
-        {[...layers].reverse().map((layer, reverseIndex) => {
-          // Calculate actual index in the source 'layers' array
-          // layers = [0, 1, 2] -> rendered [2, 1, 0]
-          // index 2 is top.
-          const actualIndex = layers.length - 1 - reverseIndex;
-          const isTop = actualIndex === layers.length - 1;
-          const isBottom = actualIndex === 0;
-
-          return (
-            <div
-              key={layer.id}
-              onClick={() => onSelectLayer(layer.id)}
-              className={`
-                flex items-center gap-2 p-2 rounded cursor-pointer transition-all border group
-                ${activeLayerId === layer.id 
-                  ? 'bg-neutral-800 border-blue-500 shadow-[0_0_10px_rgba(59,130,246,0.1)]' 
-                  : 'bg-transparent border-transparent hover:bg-neutral-800'}
-              `}
+      {/* Active Layer Properties */}
+      {activeLayer && (
+        <div className="px-3 py-2 border-b border-neutral-700 space-y-2 text-xs">
+          <div className="flex items-center gap-2">
+            <span className="text-neutral-500 w-10">Blend</span>
+            <select
+              value={activeLayer.blendMode}
+              onChange={(e) => onSetBlendMode(activeLayer.id, e.target.value as LayerGroup['blendMode'])}
+              className="flex-1 bg-neutral-800 border border-neutral-700 rounded px-1 py-1 text-neutral-300 focus:outline-none focus:border-blue-500"
             >
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onToggleVisibility(layer.id);
-                }}
-                className={`p-1 rounded hover:bg-neutral-600 ${layer.visible ? 'text-neutral-400' : 'text-neutral-600'}`}
-              >
-                {layer.visible ? <IconEye className="w-4 h-4" /> : <IconEyeOff className="w-4 h-4" />}
-              </button>
+              {LayerAPI.isGroup(activeLayer) && <option value="pass-through">Pass Through</option>}
+              {BLEND_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-neutral-500 w-10">Opacity</span>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={activeLayer.opacity}
+              onChange={(e) => onOpacityChange(activeLayer.id, parseFloat(e.target.value))}
+              onPointerUp={onOpacityCommit}
+              onKeyUp={onOpacityCommit}
+              onBlur={onOpacityCommit}
+              className="flex-1 h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+            <span className="w-8 text-right text-neutral-400">{Math.round(activeLayer.opacity * 100)}%</span>
+          </div>
+          {!LayerAPI.isGroup(activeLayer) && <div className="flex items-center gap-2">
+            <span className="text-neutral-500 w-10">Lock</span>
+            <button
+              onClick={() => onToggleLockAlpha(activeLayer.id)}
+              className={`flex-1 py-1 rounded border transition-colors ${activeLayer.lockAlpha ? 'bg-blue-600 border-blue-500 text-white' : 'bg-neutral-800 border-neutral-700 text-neutral-400 hover:text-white'}`}
+              title="Only paint over pixels that are already opaque"
+            >
+              Lock Alpha
+            </button>
+            <button
+              onClick={() => onToggleClipped(activeLayer.id)}
+              className={`flex-1 py-1 rounded border transition-colors ${activeLayer.clipped ? 'bg-blue-600 border-blue-500 text-white' : 'bg-neutral-800 border-neutral-700 text-neutral-400 hover:text-white'}`}
+              title="Clip to the layer below"
+            >
+              Clip Below
+            </button>
+          </div>}
 
-              <div className="flex-1 min-w-0">
-                {editingId === layer.id ? (
-                  <input 
-                    type="text"
-                    value={tempName}
-                    onChange={(e) => setTempName(e.target.value)}
-                    onBlur={saveEditing}
-                    onKeyDown={handleKeyDown}
-                    autoFocus
-                    onClick={(e) => e.stopPropagation()}
-                    className="w-full bg-neutral-900 border border-blue-500 rounded px-1 py-0.5 text-white focus:outline-none"
-                  />
-                ) : (
-                  <div 
-                    onDoubleClick={(e) => {
-                       e.stopPropagation();
-                       startEditing(layer);
-                    }}
-                    className="truncate select-none text-neutral-300 w-full"
-                    title="Double click to rename"
-                  >
-                    {layer.name}
-                  </div>
-                )}
-              </div>
-              
-              <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
-                 <button
-                   onClick={(e) => { e.stopPropagation(); onReorderLayer(layer.id, 'up'); }}
-                   disabled={isTop}
-                   className={`p-0.5 rounded ${isTop ? 'text-neutral-700' : 'text-neutral-500 hover:text-white hover:bg-neutral-600'}`}
-                 >
-                    <IconChevronUp className="w-3 h-3" />
-                 </button>
-                 <button
-                   onClick={(e) => { e.stopPropagation(); onReorderLayer(layer.id, 'down'); }}
-                   disabled={isBottom}
-                   className={`p-0.5 rounded ${isBottom ? 'text-neutral-700' : 'text-neutral-500 hover:text-white hover:bg-neutral-600'}`}
-                 >
-                    <IconChevronDown className="w-3 h-3" />
-                 </button>
+          {!LayerAPI.isGroup(activeLayer) && <div className="flex items-center gap-2">
+            <span className="text-neutral-500 w-10">Mask</span>
+            {activeLayer.mask ? (
+              <div className="flex-1 flex gap-1">
+                <button
+                  onClick={() => onSelectLayer(activeLayer.id, paintTarget === 'mask' ? 'color' : 'mask')}
+                  className={`flex-1 py-1 rounded border transition-colors ${paintTarget === 'mask' ? 'bg-blue-600 border-blue-500 text-white' : 'bg-neutral-800 border-neutral-700 text-neutral-400 hover:text-white'}`}
+                  title="Paint into the mask: paint reveals, erase hides"
+                >
+                  Paint Mask
+                </button>
+                <button onClick={() => onInvertMask(activeLayer.id)} className="px-2 py-1 rounded bg-neutral-800 border border-neutral-700 text-neutral-400 hover:text-white" title="Invert Mask">Invert</button>
+                <button onClick={() => onApplyMask(activeLayer.id)} className="px-2 py-1 rounded bg-neutral-800 border border-neutral-700 text-neutral-400 hover:text-white" title="Apply Mask to Layer">Apply</button>
+                <button onClick={() => onRemoveMask(activeLayer.id)} className="p-1 rounded text-neutral-500 hover:text-red-400 hover:bg-neutral-700" title="Delete Mask">
+                  <IconTrash className="w-3.5 h-3.5" />
+                </button>
               </div>
-
+            ) : (
               <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onRemoveLayer(layer.id);
-                }}
-                className="p-1 rounded text-neutral-600 hover:text-red-400 hover:bg-neutral-700 ml-1"
-                disabled={layers.length <= 1}
+                onClick={() => onAddMask(activeLayer.id)}
+                className="flex-1 py-1 rounded bg-neutral-800 border border-neutral-700 text-neutral-400 hover:text-white transition-colors"
               >
-                <IconTrash className="w-4 h-4" />
+                Add Mask
               </button>
-            </div>
-          );
-        })}
+            )}
+          </div>}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {/* Render reversed so top layer is at top of list */}
+        {[...layers].reverse().map(node => renderNode(node, layers, 0))}
       </div>
 
       <div className="p-3 border-t border-neutral-700">
@@ -186,6 +481,8 @@ const LayerManager: React.FC<LayerManagerProps> = ({
          </button>
       </div>
 
+      {contextMenu && renderContextMenu(contextMenu)}
+
       {showAiModal && (
         <div className="absolute bottom-16 right-72 w-72 bg-neutral-800 border border-neutral-600 rounded-lg p-4 shadow-2xl z-50">
           <h3 className="text-sm font-bold mb-2 text-neutral-200">Generate Texture (Active Layer)</h3>
@@ -0,0 +1,221 @@
+import React, { useMemo, useState } from 'react';
+import { BrushSettings, BrushPreset } from '../types';
+import { DEFAULT_PRESETS } from '../constants';
+import { IconBrush, IconAirbrush, IconTrash, IconPlus } from './Icons';
+import { PresetAPI, PRESET_BUNDLE_EXTENSION } from '../services/presetService';
+
+interface PresetPanelProps {
+  brush: BrushSettings;
+  setBrush: (b: BrushSettings) => void;
+  presets: BrushPreset[];
+  setPresets: (p: BrushPreset[]) => void;
+}
+
+const genId = () => Math.random().toString(36).substr(2, 9);
+
+const GENERAL = 'General';
+const categoryOf = (p: BrushPreset) => p.category?.trim() || GENERAL;
+const isBuiltIn = (id: string) => DEFAULT_PRESETS.some(dp => dp.id === id);
+const parseTags = (text: string) => text.split(',').map(t => t.trim()).filter(Boolean);
+
+// Brush preset library: browse by category and tag, apply, and manage (save, rename, duplicate,
+// overwrite, delete, import/export bundles). Built-in presets can be duplicated but not changed.
+export const PresetPanel: React.FC<PresetPanelProps> = ({ brush, setBrush, presets, setPresets }) => {
+  const [category, setCategory] = useState<string>('all');
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const categories = useMemo(() => [...new Set(presets.map(categoryOf))].sort(), [presets]);
+  const selected = presets.find(p => p.id === selectedId) ?? null;
+
+  const query = search.trim().toLowerCase();
+  const visible = presets.filter(p =>
+    (category === 'all' || categoryOf(p) === category) &&
+    (!query || p.name.toLowerCase().includes(query) || p.tags?.some(t => t.toLowerCase().includes(query)))
+  );
+
+  const updatePreset = (id: string, changes: Partial<BrushPreset>) => {
+    setPresets(presets.map(p => (p.id === id ? { ...p, ...changes } : p)));
+  };
+
+  const handleApply = (preset: BrushPreset) => {
+    setBrush({ ...brush, ...preset.settings });
+    setSelectedId(preset.id);
+  };
+
+  const handleSave = async () => {
+    const settings = { ...brush }; // Save current state
+    const preset: BrushPreset = {
+      id: genId(),
+      name: `My Brush ${presets.length + 1}`,
+      category: category === 'all' || category === GENERAL ? undefined : category,
+      settings,
+      thumbnail: await PresetAPI.renderThumbnail(settings)
+    };
+    setPresets([...presets, preset]);
+    setSelectedId(preset.id);
+  };
+
+  const handleDuplicate = (preset: BrushPreset) => {
+    const copy = PresetAPI.duplicate(preset);
+    setPresets([...presets, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const handleOverwrite = async (preset: BrushPreset) => {
+    const settings = { ...brush };
+    updatePreset(preset.id, { settings, thumbnail: await PresetAPI.renderThumbnail(settings) });
+  };
+
+  const handleDelete = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    setPresets(presets.filter(p => p.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await PresetAPI.withThumbnails(await PresetAPI.importBundle(file));
+      setPresets([...presets, ...imported]);
+    } catch (err) {
+      console.warn(err);
+      alert(`Could not import '${file.name}'. Choose a brush preset bundle (${PRESET_BUNDLE_EXTENSION}).`);
+    }
+  };
+
+  const handleExport = () => {
+    // Exports what the filter shows, so a single category can be shared on its own
+    const name = category === 'all' ? 'brushes' : category.toLowerCase().replace(/\s+/g, '-');
+    PresetAPI.exportBundle(visible, `${name}${PRESET_BUNDLE_EXTENSION}`);
+  };
+
+  const editable = selected !== null && !isBuiltIn(selected.id);
+
+  return (
+    <div className="space-y-2">
+       <div className="flex justify-between items-center text-xs text-neutral-500 font-semibold uppercase tracking-wider">
+          <span>Library</span>
+          <div className="flex items-center gap-2 normal-case font-normal">
+             <label className="text-[10px] text-neutral-400 hover:text-white cursor-pointer" title="Import a preset bundle">
+                Import
+                <input type="file" className="hidden" accept={`${PRESET_BUNDLE_EXTENSION},application/json`} onChange={handleImport} />
+             </label>
+             <button onClick={handleExport} disabled={visible.length === 0} className="text-[10px] text-neutral-400 hover:text-white disabled:opacity-40" title="Export the listed presets">
+                Export
+             </button>
+             <button onClick={handleSave} className="text-blue-400 hover:text-blue-300" title="Save current brush as preset">
+                <IconPlus className="w-4 h-4" />
+             </button>
+          </div>
+       </div>
+
+       <div className="flex gap-1">
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="bg-neutral-800 border border-neutral-700 rounded text-[10px] text-neutral-300 px-1 py-1"
+          >
+             <option value="all">All</option>
+             {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name or tag..."
+            className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded text-[10px] text-neutral-300 px-2 py-1"
+          />
+       </div>
+
+       <div className="grid grid-cols-3 gap-2">
+          {visible.map(preset => (
+             <div key={preset.id} className="relative group">
+                <button
+                  onClick={() => handleApply(preset)}
+                  className={`w-full aspect-square bg-neutral-800 border rounded-lg hover:border-blue-500 hover:bg-neutral-700 flex flex-col items-center justify-center p-1 transition-all overflow-hidden ${selectedId === preset.id ? 'border-blue-500' : 'border-neutral-700'}`}
+                  title={preset.tags?.length ? `${preset.name} (${preset.tags.join(', ')})` : preset.name}
+                >
+                  {preset.thumbnail ? (
+                    <img src={preset.thumbnail} alt="stroke" className="w-full h-8 mb-1 object-contain" />
+                  ) : preset.settings.maskImage ? (
+                    <div className="w-8 h-8 mb-1 opacity-80 invert">
+                       <img src={preset.settings.maskImage} alt="tip" className="w-full h-full object-contain" />
+                    </div>
+                  ) : (
+                    preset.settings.isAirbrush ?
+                      <IconAirbrush className="w-6 h-6 text-blue-400 mb-1" /> :
+                      <IconBrush className="w-6 h-6 text-neutral-400 mb-1" />
+                  )}
+                  <span className="text-[9px] truncate w-full text-center text-neutral-400 leading-tight">{preset.name}</span>
+                </button>
+                {!isBuiltIn(preset.id) && (
+                  <button
+                    onClick={(e) => handleDelete(e, preset.id)}
+                    className="absolute -top-1 -right-1 bg-red-900 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity z-10"
+                  >
+                    <IconTrash className="w-2 h-2" />
+                  </button>
+                )}
+             </div>
+          ))}
+          {visible.length === 0 && <p className="col-span-3 text-[10px] text-neutral-500 text-center py-2">No presets match.</p>}
+       </div>
+
+       {/* Selected preset */}
+       {selected && (
+          <div className="bg-neutral-800 p-2 rounded border border-neutral-700 space-y-2">
+             {editable ? (
+                <>
+                   <input
+                     type="text"
+                     value={selected.name}
+                     onChange={(e) => updatePreset(selected.id, { name: e.target.value })}
+                     className="w-full bg-neutral-900 border border-neutral-700 rounded text-xs text-neutral-200 px-2 py-1"
+                     title="Name"
+                   />
+                   <div className="flex gap-1">
+                      <input
+                        type="text"
+                        list="preset-categories"
+                        value={selected.category ?? ''}
+                        onChange={(e) => updatePreset(selected.id, { category: e.target.value || undefined })}
+                        placeholder={GENERAL}
+                        className="w-1/2 bg-neutral-900 border border-neutral-700 rounded text-[10px] text-neutral-300 px-2 py-1"
+                        title="Category"
+                      />
+                      <datalist id="preset-categories">
+                         {categories.map(c => <option key={c} value={c} />)}
+                      </datalist>
+                      <input
+                        type="text"
+                        defaultValue={selected.tags?.join(', ') ?? ''}
+                        key={selected.id}
+                        onBlur={(e) => updatePreset(selected.id, { tags: parseTags(e.target.value) })}
+                        placeholder="tags, comma separated"
+                        className="w-1/2 bg-neutral-900 border border-neutral-700 rounded text-[10px] text-neutral-300 px-2 py-1"
+                        title="Tags"
+                      />
+                   </div>
+                </>
+             ) : (
+                <p className="text-[10px] text-neutral-400"><span className="text-neutral-200 font-bold">{selected.name}</span> is built in. Duplicate it to make changes.</p>
+             )}
+             <div className="flex gap-1">
+                <button onClick={() => handleDuplicate(selected)} className="flex-1 py-1 text-[10px] rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-200">Duplicate</button>
+                <button
+                  onClick={() => handleOverwrite(selected)}
+                  disabled={!editable}
+                  className="flex-1 py-1 text-[10px] rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-200 disabled:opacity-40"
+                  title="Replace the preset's settings with the current brush"
+                >
+                  Update from Brush
+                </button>
+             </div>
+          </div>
+       )}
+    </div>
+  );
+};
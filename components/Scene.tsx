@@ -3,12 +3,21 @@ import React, { useRef, useMemo, useEffect, useState, useCallback, useImperative
 import { Canvas, useThree, useFrame, createPortal, ThreeEvent } from '@react-three/fiber';
 import { OrbitControls, Environment, useCursor, useTexture, Line, GizmoHelper, GizmoViewport, Billboard } from '@react-three/drei';
 import * as THREE from 'three';
-import { BrushSettings, Layer, StencilSettings, AxisWidgetSettings, Vec3 } from '../types';
-import { TEXTURE_SIZE } from '../constants';
-import { Vec3Utils, Vec2, Vec2Utils, TMP_VEC2_1, GridUtils, MeshUtils } from '../services/math';
+import { BrushSettings, Layer, LayerNode, PaintTarget, MaterialChannel, StencilSettings, StencilTransform, StencilRig, StencilInterpolation, AxisWidgetSettings, Vec3, CameraPose, SymmetrySettings, Axis, StrokeSample, CurvePoint } from '../types';
+import { TEXTURE_SIZE, MATERIAL_CHANNELS } from '../constants';
+import { Vec3Utils, GridUtils, MeshUtils } from '../services/math';
 import { BrushAPI } from '../services/brushService';
-import { StencilAPI } from '../services/stencilService';
+import { TipAPI } from '../services/tipService';
+import { StencilAPI, GridIndex } from '../services/stencilService';
+import { LayerAPI } from '../services/layerService';
 import { eventBus, Events } from '../services/eventBus';
+import { history } from '../services/historyService';
+import { CompositeAPI } from '../services/compositeService';
+import { SurfaceAPI, Splat } from '../services/surfaceService';
+import { SymmetryAPI } from '../services/symmetryService';
+import { StabilizerAPI, StabilizerState } from '../services/stabilizerService';
+import { DynamicsAPI, StrokeTracker, ColorRandoms, RESTING_SAMPLE } from '../services/dynamicsService';
+import { FilterAPI } from '../services/filterService';
 import { Gizmo } from './Gizmo';
 import { GizmoMode } from '../services/GizmoRenderer';
 import { BezierCurve } from './BezierCurve';
@@ -42,14 +51,43 @@ declare module 'react' {
 
 interface SceneProps {
   brush: BrushSettings;
-  layers: Layer[];
+  geometry: THREE.BufferGeometry; // Paintable surface (default sphere or imported mesh)
+  layers: LayerNode[];
   activeLayerId: string;
-  setLayers: React.Dispatch<React.SetStateAction<Layer[]>>;
+  paintTarget: PaintTarget; // Whether strokes land on the active layer's color or its mask
+  setLayers: React.Dispatch<React.SetStateAction<LayerNode[]>>;
   stencil: StencilSettings;
   setStencil?: any; 
   axisWidget: AxisWidgetSettings;
-  curvePoints?: Vec3[];
-  setCurvePoints?: React.Dispatch<React.SetStateAction<Vec3[]>>;
+  symmetry: SymmetrySettings;
+  curvePoints?: CurvePoint[];
+  setCurvePoints?: React.Dispatch<React.SetStateAction<CurvePoint[]>>;
+}
+
+// One surface a stamp lands on and how it is painted there
+interface StampTarget {
+  ctx: CanvasRenderingContext2D;
+  color: string;
+  lockAlpha: boolean; // Only recolor pixels that are already opaque
+  textured: boolean;  // Whether colored tips (textureMix) apply; false for masks and data channels
+}
+
+// Placement and strength of one stamp in its stamp frame (after dynamics and jitter)
+interface StampFrame {
+  size: number;
+  offsetX: number;
+  offsetY: number;
+  angle: number; // Radians
+  reach: number; // Footprint radius including jitter
+  opacity: number;
+  flow: number;
+  hardness: number;
+}
+
+// Where the brush touches the mesh, in mesh-local space
+interface SurfaceHit {
+  point: THREE.Vector3;
+  uv: THREE.Vector2;
 }
 
 export interface ProjectionBakerHandle {
@@ -142,22 +180,37 @@ const CornerHandle = ({
 // ------------------------------------------------------------------
 // STENCIL PLANE COMPONENT
 // ------------------------------------------------------------------
+// Lattice editing: how close (plane units) a moved point snaps to a cut line, how close (UV) the pointer
+// has to be to a cut to remove it, and how far (pixels) a click may move before it counts as a drag
+const SNAP_DISTANCE = 0.04;
+const REMOVE_LOOP_DISTANCE = 0.03;
+const CLICK_DISTANCE = 3;
+
 const StencilPlane = forwardRef<THREE.Group, { 
   image: string; 
   opacity: number; 
   aspectRatio: number; 
   mode: 'translate' | 'rotate' | 'scale';
   editable: boolean;
-  tool: 'select' | 'loop';
+  tool: StencilSettings['tool'];
   rowCuts: number[];
   colCuts: number[];
+  gridPoints: Vec3[][] | null;
+  interpolation: StencilInterpolation;
+  transform: StencilTransform;
+  proportionalRadius: number; // 0 = moves only the selected points
+  snapToCuts: boolean;
   onDragChange: (isDragging: boolean) => void;
   onLutUpdate: (texture: THREE.Texture | null, bounds: THREE.Vector4) => void;
   onAddLoop: (type: 'row' | 'col', val: number) => void;
+  onRemoveLoop: (type: 'row' | 'col', index: number) => void;
+  onGridEdit: (label: string) => void; // Names the undo step of the grid changes that follow
+  onGridChange: (update: (grid: Vec3[][]) => Vec3[][]) => void;
+  onTransformChange: (transform: StencilTransform) => void;
 }>(
-  ({ image, opacity, aspectRatio, mode, editable, tool, rowCuts, colCuts, onDragChange, onLutUpdate, onAddLoop }, ref) => {
+  ({ image, opacity, aspectRatio, mode, editable, tool, rowCuts, colCuts, gridPoints: gridPointsProp, interpolation, transform, proportionalRadius, snapToCuts, onDragChange, onLutUpdate, onAddLoop, onRemoveLoop, onGridEdit, onGridChange, onTransformChange }, ref) => {
   const texture = useTexture(image);
-  const { gl } = useThree();
+  const { gl, camera, raycaster } = useThree();
   const groupRef = useRef<THREE.Group>(null!);
   const proxyRef = useRef<THREE.Group>(null!); 
   
@@ -169,13 +222,46 @@ const StencilPlane = forwardRef<THREE.Group, {
   // ------------------------------------------------------------------
   // GRID STATE
   // ------------------------------------------------------------------
-  // Use GridUtils to initialize grid
-  const [gridPoints, setGridPoints] = useState<Vec3[][]>(() => 
-    GridUtils.create(2, 2, aspectRatio, 1.0)
-  );
-  
-  const [selectedPoint, setSelectedPoint] = useState<{r: number, c: number} | null>(null);
+  // The lattice lives in StencilSettings so it survives unmounting and can be saved.
+  // Until one exists, fall back to (and persist) the default grid for this image.
+  const defaultGrid = useMemo(() => StencilAPI.createGrid(aspectRatio), [aspectRatio]);
+  const gridPoints = gridPointsProp ?? defaultGrid;
+
+  useEffect(() => {
+     if (!gridPointsProp) onGridChange(() => defaultGrid);
+  }, [gridPointsProp, defaultGrid, onGridChange]);
+
+  // ------------------------------------------------------------------
+  // TRANSFORM SYNC
+  // ------------------------------------------------------------------
+  useEffect(() => {
+     const g = groupRef.current;
+     g.position.set(transform.position.x, transform.position.y, transform.position.z);
+     g.quaternion.set(transform.rotation.x, transform.rotation.y, transform.rotation.z, transform.rotation.w);
+     g.scale.set(transform.scale.x, transform.scale.y, transform.scale.z);
+     g.updateMatrixWorld();
+  }, [transform]);
+
+  const commitTransform = () => {
+     const g = groupRef.current;
+     onTransformChange({
+        position: { x: g.position.x, y: g.position.y, z: g.position.z },
+        rotation: { x: g.quaternion.x, y: g.quaternion.y, z: g.quaternion.z, w: g.quaternion.w },
+        scale: { x: g.scale.x, y: g.scale.y, z: g.scale.z }
+     });
+  };
+
+  // Selected lattice points; the last one is active (the Gizmo sits on it and it is what snaps)
+  const [selection, setSelection] = useState<GridIndex[]>([]);
+  const activePoint = selection.length > 0 ? selection[selection.length - 1] : null;
   const [hoverLoop, setHoverLoop] = useState<{ type: 'row' | 'col', value: number } | null>(null);
+  // Existing cut under the pointer in the remove-loop tool (index into rowCuts/colCuts)
+  const [hoverCut, setHoverCut] = useState<{ type: 'row' | 'col', index: number } | null>(null);
+
+  // Point indices shift when cuts change (loop added, rig loaded, another stencil opened)
+  useEffect(() => setSelection([]), [rowCuts, colCuts]);
+
+  const isSelected = (r: number, c: number) => selection.some(p => p.r === r && p.c === c);
 
   // ------------------------------------------------------------------
   // LUT GENERATION RESOURCES
@@ -208,11 +294,17 @@ const StencilPlane = forwardRef<THREE.Group, {
   // ------------------------------------------------------------------
   // GEOMETRY GENERATION
   // ------------------------------------------------------------------
-  const geometry = useMemo(() => new THREE.BufferGeometry(), [rowCuts.length, colCuts.length]); // Recreate if topology changes
+  const geometry = useMemo(() => new THREE.BufferGeometry(), [rowCuts.length, colCuts.length, interpolation]); // Recreate if topology changes
+
+  // What is drawn and baked into the LUT: the lattice, or the finely tessellated smooth surface through it
+  const surface = useMemo(
+      () => StencilAPI.getSurface(gridPoints, rowCuts, colCuts, interpolation),
+      [gridPoints, rowCuts, colCuts, interpolation]
+  );
 
   // Update Geometry BufferAttributes from MeshUtils
   useEffect(() => {
-      const { positions, uvs, indices } = MeshUtils.generateGridMesh(gridPoints, rowCuts, colCuts);
+      const { positions, uvs, indices } = MeshUtils.generateGridMesh(surface.grid, surface.rowCuts, surface.colCuts);
       geometry.setIndex(indices);
       geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
       geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
@@ -222,17 +314,17 @@ const StencilPlane = forwardRef<THREE.Group, {
       (geometry.attributes.position as THREE.BufferAttribute).needsUpdate = true;
       (geometry.attributes.uv as THREE.BufferAttribute).needsUpdate = true;
 
-  }, [geometry, gridPoints, rowCuts, colCuts]);
+  }, [geometry, surface]);
 
   // ------------------------------------------------------------------
   // QUAD WIREFRAME GEOMETRY (Visual Only)
   // ------------------------------------------------------------------
   const wireframeGeometry = useMemo(() => {
-      const positions = GridUtils.getWireframeVertices(gridPoints);
+      const positions = GridUtils.getWireframeVertices(surface.grid, surface.step);
       const geo = new THREE.BufferGeometry();
       geo.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
       return geo;
-  }, [gridPoints]);
+  }, [surface]);
 
   // ------------------------------------------------------------------
   // LOOP ADDITION LOGIC
@@ -270,7 +362,7 @@ const StencilPlane = forwardRef<THREE.Group, {
           newGrid = GridUtils.insertCol(gridPoints, t, prevColIdx);
       }
       
-      setGridPoints(newGrid);
+      onGridChange(() => newGrid);
       onAddLoop(type, val);
   };
 
@@ -281,11 +373,12 @@ const StencilPlane = forwardRef<THREE.Group, {
      // Wait for attributes to populate
      if (!geometry.attributes.position) return;
 
-     // Calculate Bounds
+     // Calculate Bounds (of the drawn surface: smooth warps can bulge past their lattice points)
+     const surfaceGrid = surface.grid;
      let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-     for(let r=0; r<gridPoints.length; r++) {
-         for(let c=0; c<gridPoints[r].length; c++) {
-             const p = gridPoints[r][c];
+     for(let r=0; r<surfaceGrid.length; r++) {
+         for(let c=0; c<surfaceGrid[r].length; c++) {
+             const p = surfaceGrid[r][c];
              minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
              minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
          }
@@ -319,33 +412,72 @@ const StencilPlane = forwardRef<THREE.Group, {
      // Bounds Vector: MinX, MinY, Width, Height
      onLutUpdate(lutFBO.texture, new THREE.Vector4(lMinX, lMinY, width, height));
 
-  }, [geometry, gridPoints, gl, lutFBO, lutScene, lutCamera, lutMaterial, onLutUpdate]);
+  }, [geometry, surface, gl, lutFBO, lutScene, lutCamera, lutMaterial, onLutUpdate]);
 
   // ------------------------------------------------------------------
   // GIZMO SYNC
   // ------------------------------------------------------------------
+  // The proxy follows the active point, also when snapping moves it off the Gizmo's drag position
   useEffect(() => {
-    if (selectedPoint !== null) {
-      const {r, c} = selectedPoint;
+    if (activePoint !== null) {
+      const {r, c} = activePoint;
       if (gridPoints[r] && gridPoints[r][c]) {
           const pos = gridPoints[r][c];
           proxyRef.current.position.set(pos.x, pos.y, 0);
           proxyRef.current.updateMatrixWorld();
       }
     }
-  }, [selectedPoint]); 
+  }, [activePoint?.r, activePoint?.c, gridPoints]);
+
+  // Grid and per-point weights at drag start: every frame re-applies the whole offset to them
+  const pointDragRef = useRef<{ grid: Vec3[][]; origin: Vec3; weights: number[][] } | null>(null);
+
+  const handleGizmoDragStart = () => {
+     onDragChange(true);
+     if (activePoint === null) return;
+     pointDragRef.current = {
+        grid: gridPoints,
+        origin: Vec3Utils.clone(gridPoints[activePoint.r][activePoint.c]),
+        weights: StencilAPI.getFalloffWeights(gridPoints, selection, proportionalRadius)
+     };
+  };
 
   const handleGizmoDrag = () => {
-     if (selectedPoint !== null) {
-        setGridPoints(prev => {
-           const next = prev.map(row => row.map(v => Vec3Utils.clone(v)));
-           const {r, c} = selectedPoint;
-           const newPos = proxyRef.current.position; 
-           next[r][c] = Vec3Utils.create(newPos.x, newPos.y, 0);
-           return next;
-        });
-     }
+     const drag = pointDragRef.current;
+     if (!drag) return;
+     const pos = proxyRef.current.position;
+     let target = Vec3Utils.create(pos.x, pos.y, 0);
+     if (snapToCuts) target = StencilAPI.snapToCuts(target, rowCuts, colCuts, aspectRatio, SNAP_DISTANCE);
+     const dx = target.x - drag.origin.x;
+     const dy = target.y - drag.origin.y;
+     onGridChange(() => drag.grid.map((row, r) => row.map((v, c) => {
+        const w = drag.weights[r][c];
+        return w > 0 ? Vec3Utils.create(v.x + dx * w, v.y + dy * w, v.z) : Vec3Utils.clone(v);
+     })));
   };
+
+  const handleGizmoDragEnd = () => {
+     pointDragRef.current = null;
+     onDragChange(false);
+     commitTransform();
+  };
+
+  // Reset commands put points back on their straight cut lines: the rows or columns of the
+  // selected points, or the whole grid
+  useEffect(() => {
+     return eventBus.on<{ scope: 'row' | 'col' | 'grid' }>(Events.CMD_STENCIL_RESET, ({ scope }) => {
+        const rest = StencilAPI.getRestGrid(rowCuts, colCuts, aspectRatio);
+        const rows = new Set(selection.map(p => p.r));
+        const cols = new Set(selection.map(p => p.c));
+        if (scope !== 'grid' && selection.length === 0) return;
+        onGridEdit(scope === 'grid' ? 'Reset Stencil Grid' : scope === 'row' ? 'Reset Stencil Row' : 'Reset Stencil Column');
+        onGridChange(prev => prev.map((row, r) => row.map((v, c) =>
+           scope === 'grid' || (scope === 'row' && rows.has(r)) || (scope === 'col' && cols.has(c))
+              ? Vec3Utils.clone(rest[r][c])
+              : v
+        )));
+     });
+  }, [rowCuts, colCuts, aspectRatio, selection, onGridEdit, onGridChange]);
   
   // Toggle mode with keyboard 'R' for rotate, 'G' for grab/translate, 'S' for scale
   useEffect(() => {
@@ -362,6 +494,22 @@ const StencilPlane = forwardRef<THREE.Group, {
   // INTERACTIONS
   // ------------------------------------------------------------------
   const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+     if (editable && tool === 'remove-loop' && e.uv) {
+        // Nearest interior cut; the border cuts cannot be removed
+        let best: { type: 'row' | 'col', index: number } | null = null;
+        let bestDist = REMOVE_LOOP_DISTANCE;
+        rowCuts.forEach((cut, i) => {
+           const dist = Math.abs(e.uv!.y - cut);
+           if (i > 0 && i < rowCuts.length - 1 && dist < bestDist) { best = { type: 'row', index: i }; bestDist = dist; }
+        });
+        colCuts.forEach((cut, i) => {
+           const dist = Math.abs(e.uv!.x - cut);
+           if (i > 0 && i < colCuts.length - 1 && dist < bestDist) { best = { type: 'col', index: i }; bestDist = dist; }
+        });
+        setHoverCut(best);
+        return;
+     }
+     setHoverCut(null);
      if (!editable || tool !== 'loop' || !e.uv) {
         setHoverLoop(null);
         return;
@@ -384,22 +532,95 @@ const StencilPlane = forwardRef<THREE.Group, {
      else setHoverLoop({ type: 'col', value: u });
   };
 
-  const handleClick = (e: ThreeEvent<PointerEvent>) => {
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
       if (!editable) return;
       e.stopPropagation();
       if (tool === 'select') {
-          // If we clicked background, deselect point, select WHOLE object logic (handled by Gizmo auto-target)
-          setSelectedPoint(null); 
+          // If we clicked background, deselect points, select WHOLE object logic (handled by Gizmo auto-target).
+          // Shift+drag is a box select and keeps the selection.
+          if (!e.shiftKey && e.delta <= CLICK_DISTANCE) setSelection([]);
       }
       else if (tool === 'loop' && hoverLoop) {
          handleInternalAddLoop(hoverLoop.type, hoverLoop.value);
          setHoverLoop(null);
       }
+      else if (tool === 'remove-loop' && hoverCut) {
+         onRemoveLoop(hoverCut.type, hoverCut.index);
+         setHoverCut(null);
+      }
+  };
+
+  // Click selects one point, Shift+click adds or removes it
+  const handleSelectPoint = (e: ThreeEvent<PointerEvent>, r: number, c: number) => {
+      if (!e.shiftKey) setSelection([{ r, c }]);
+      else if (isSelected(r, c)) setSelection(selection.filter(p => p.r !== r || p.c !== c));
+      else setSelection([...selection, { r, c }]);
+  };
+
+  // ------------------------------------------------------------------
+  // BOX SELECT (Shift+drag on the plane, in plane-local space)
+  // ------------------------------------------------------------------
+  const [box, setBox] = useState<{ start: THREE.Vector3; end: THREE.Vector3 } | null>(null);
+  const boxRef = useRef(box);
+  boxRef.current = box;
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+      if (!editable || tool !== 'select' || !e.shiftKey) return;
+      e.stopPropagation();
+      const start = groupRef.current.worldToLocal(e.point.clone());
+      setBox({ start, end: start.clone() });
   };
 
+  const boxActive = box !== null;
+  useEffect(() => {
+      if (!boxActive) return;
+      // The pointer may leave the plane mid-drag, so it is cast onto the plane's infinite extension
+      const plane = new THREE.Plane();
+      const toLocal = (e: PointerEvent): THREE.Vector3 | null => {
+          const g = groupRef.current;
+          const rect = gl.domElement.getBoundingClientRect();
+          const ndc = new THREE.Vector2(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1);
+          raycaster.setFromCamera(ndc, camera);
+          const normal = new THREE.Vector3(0, 0, 1).applyQuaternion(g.getWorldQuaternion(new THREE.Quaternion()));
+          plane.setFromNormalAndCoplanarPoint(normal, g.getWorldPosition(new THREE.Vector3()));
+          const hit = raycaster.ray.intersectPlane(plane, new THREE.Vector3());
+          return hit ? g.worldToLocal(hit) : null;
+      };
+      const onMove = (e: PointerEvent) => {
+          const end = toLocal(e);
+          if (end) setBox(prev => prev && { ...prev, end });
+      };
+      const onUp = () => {
+          const current = boxRef.current;
+          setBox(null);
+          if (!current) return;
+          const minX = Math.min(current.start.x, current.end.x), maxX = Math.max(current.start.x, current.end.x);
+          const minY = Math.min(current.start.y, current.end.y), maxY = Math.max(current.start.y, current.end.y);
+          const inside: GridIndex[] = [];
+          gridPoints.forEach((row, r) => row.forEach((p, c) => {
+              if (p.x >= minX && p.x <= maxX && p.y >= minY && p.y <= maxY && !isSelected(r, c)) inside.push({ r, c });
+          }));
+          if (inside.length > 0) setSelection([...selection, ...inside]);
+      };
+      window.addEventListener('pointermove', onMove);
+      window.addEventListener('pointerup', onUp);
+      return () => {
+          window.removeEventListener('pointermove', onMove);
+          window.removeEventListener('pointerup', onUp);
+      };
+  }, [boxActive, gridPoints, selection]);
+
+  // Cut line the remove-loop tool would delete, traced on the drawn surface
+  const hoverCutLine = useMemo(() => {
+      if (!hoverCut) return null;
+      const i = hoverCut.index * surface.step;
+      const points = hoverCut.type === 'row' ? surface.grid[i] : surface.grid.map(row => row[i]);
+      return points ? points.map(p => new THREE.Vector3(p.x, p.y, p.z)) : null;
+  }, [hoverCut, surface]);
+
   return (
     <>
-      <group ref={groupRef} position={[0, 0, 2.5]} onClick={handleClick} onPointerMove={handlePointerMove}>
+      <group ref={groupRef} onClick={handleClick} onPointerDown={handlePointerDown} onPointerMove={handlePointerMove}>
          <mesh geometry={geometry}>
             <meshBasicMaterial 
                map={texture} 
@@ -415,6 +636,26 @@ const StencilPlane = forwardRef<THREE.Group, {
                <lineBasicMaterial color="white" depthTest={false} transparent opacity={0.4} />
             </lineSegments>
          )}
+
+         {editable && tool === 'remove-loop' && hoverCutLine && (
+            <Line points={hoverCutLine} color="#ff4444" lineWidth={3} depthTest={false} renderOrder={10000} />
+         )}
+
+         {box && (
+            <Line
+              points={[
+                 [box.start.x, box.start.y, 0], [box.end.x, box.start.y, 0],
+                 [box.end.x, box.end.y, 0], [box.start.x, box.end.y, 0], [box.start.x, box.start.y, 0]
+              ]}
+              color="#ffff00"
+              lineWidth={1}
+              dashed
+              dashSize={0.02}
+              gapSize={0.02}
+              depthTest={false}
+              renderOrder={10000}
+            />
+         )}
          
          <group ref={proxyRef} visible={false} />
          
@@ -423,31 +664,32 @@ const StencilPlane = forwardRef<THREE.Group, {
                <CornerHandle 
                  key={`${r}-${c}`}
                  position={[pos.x, pos.y, pos.z]} 
-                 selected={selectedPoint?.r === r && selectedPoint?.c === c}
-                 onSelect={(e) => setSelectedPoint({r, c})}
+                 selected={isSelected(r, c)}
+                 onSelect={(e) => handleSelectPoint(e, r, c)}
                  visible={true}
                />
              ))
          )}
       </group>
       
-      {/* Gizmo Logic: If point selected, target proxy (translate only). If NO point selected, target Group (Translate/Rotate/Scale) */}
+      {/* Gizmo Logic: If points selected, target proxy (translate only). If NO point selected, target Group (Translate/Rotate/Scale) */}
       {editable && tool === 'select' && (
          <Gizmo 
-           target={selectedPoint !== null ? proxyRef.current : groupRef.current}
-           mode={selectedPoint !== null ? 'translate' : gizmoMode}
-           onDragStart={() => onDragChange(true)}
-           onDragEnd={() => onDragChange(false)}
+           target={activePoint !== null ? proxyRef.current : groupRef.current}
+           mode={activePoint !== null ? 'translate' : gizmoMode}
+           onDragStart={handleGizmoDragStart}
+           onDragEnd={handleGizmoDragEnd}
            onDrag={handleGizmoDrag}
-           onModeChange={selectedPoint === null ? (m) => setGizmoMode(m) : undefined}
+           onModeChange={activePoint === null ? (m) => setGizmoMode(m) : undefined}
          />
       )}
     </>
   );
 });
 
-const ProjectionPreview = ({ stencil, stencilMeshRef, lutTexture, lutBounds }: { 
+const ProjectionPreview = ({ stencil, geometry, stencilMeshRef, lutTexture, lutBounds }: { 
     stencil: StencilSettings, 
+    geometry: THREE.BufferGeometry,
     stencilMeshRef: React.MutableRefObject<THREE.Group | null>,
     lutTexture: THREE.Texture | null,
     lutBounds: THREE.Vector4
@@ -540,8 +782,7 @@ const ProjectionPreview = ({ stencil, stencilMeshRef, lutTexture, lutBounds }: {
   }, [texture]);
 
   return (
-    <mesh>
-       <sphereGeometry args={[2, 64, 64]} /> 
+    <mesh geometry={geometry}>
        <primitive object={material} ref={shaderRef} attach="material" />
     </mesh>
   );
@@ -594,7 +835,7 @@ const ProjectionBaker = forwardRef<ProjectionBakerHandle, any>(({ stencil, meshG
                  // Is vNormal World Space? NO. It is Local Space of the mesh being painted.
                  // However, PaintableMesh is usually at (0,0,0) with identity rotation.
                  // If the mesh was rotated, we'd need to multiply vNormal by modelMatrix.
-                 // Assuming standard Sphere at identity transform for now.
+                 // Imported meshes are normalized in geometry space (MeshAPI.normalize), so identity holds.
                  if (dot(vNormal, stencilDir) > 0.0) discard;
              }
 
@@ -656,26 +897,390 @@ const ProjectionBaker = forwardRef<ProjectionBakerHandle, any>(({ stencil, meshG
   return null;
 });
 
+// ------------------------------------------------------------------
+// PROJECTION PAINTER (Screen-space stroke -> texture, through the camera)
+// ------------------------------------------------------------------
+// Inclusive pixel rectangle
+export interface PixelBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Baked texels covering x..x+width, y..y+height of the texture (y down); `image` rows run bottom-up like ProjectionBaker
+export interface ProjectedPatch {
+  x: number;
+  y: number;
+  image: ImageData;
+}
+
+export interface ProjectionPainterHandle {
+  // Returns the texels of everything in `strokeCanvas` that is visible from the camera, rendered and read
+  // back only where the mesh under `screenBounds` (drawing-buffer pixels) lies in UV, or null when there is none
+  bake: (strokeCanvas: HTMLCanvasElement, cullBackfaces: boolean, screenBounds: PixelBounds) => ProjectedPatch | null;
+}
+
+const ProjectionPainter = forwardRef<ProjectionPainterHandle, { meshGeometry: THREE.BufferGeometry }>(({ meshGeometry }, ref) => {
+  const { gl, camera } = useThree();
+  const fbo = useMemo(() => new THREE.WebGLRenderTarget(TEXTURE_SIZE, TEXTURE_SIZE), []);
+  // Camera depth of the paint mesh, for occlusion
+  const depthTarget = useMemo(() => {
+     const target = new THREE.WebGLRenderTarget(1, 1);
+     target.depthTexture = new THREE.DepthTexture(1, 1);
+     return target;
+  }, []);
+  const scene = useMemo(() => new THREE.Scene(), []);
+  const uvCamera = useMemo(() => new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1), []);
+  const strokeTexture = useMemo(() => {
+     const tex = new THREE.CanvasTexture(document.createElement('canvas'));
+     tex.colorSpace = THREE.NoColorSpace; // Pass canvas values through untouched
+     tex.minFilter = THREE.LinearFilter;
+     tex.generateMipmaps = false;
+     return tex;
+  }, []);
+  const depthMaterial = useMemo(() => new THREE.MeshBasicMaterial({ colorWrite: false, side: THREE.DoubleSide }), []);
+
+  const bakeMaterial = useMemo(() => {
+     return new THREE.ShaderMaterial({
+        uniforms: {
+           strokeTexture: { value: null },
+           depthTexture: { value: null },
+           viewProjection: { value: new THREE.Matrix4() },
+           eye: { value: new THREE.Vector3() },
+           cameraNear: { value: 0.1 },
+           cameraFar: { value: 1000 },
+           cullBackfaces: { value: true }
+        },
+        vertexShader: `
+          varying vec3 vWorldPos;
+          varying vec3 vNormal;
+          void main() {
+            vec2 clipSpace = uv * 2.0 - 1.0;
+            gl_Position = vec4(clipSpace, 0.0, 1.0);
+            vWorldPos = position; // PaintableMesh has an identity transform
+            vNormal = normalize(normal);
+          }
+        `,
+        fragmentShader: `
+          #include <packing>
+          uniform sampler2D strokeTexture;
+          uniform sampler2D depthTexture;
+          uniform mat4 viewProjection;
+          uniform vec3 eye;
+          uniform float cameraNear;
+          uniform float cameraFar;
+          uniform bool cullBackfaces;
+          varying vec3 vWorldPos;
+          varying vec3 vNormal;
+
+          void main() {
+             if (cullBackfaces && dot(vNormal, eye - vWorldPos) <= 0.0) discard;
+
+             vec4 clip = viewProjection * vec4(vWorldPos, 1.0);
+             if (clip.w <= 0.0) discard;
+             vec3 ndc = clip.xyz / clip.w;
+             if (abs(ndc.x) > 1.0 || abs(ndc.y) > 1.0) discard;
+             vec2 screenUV = ndc.xy * 0.5 + 0.5;
+
+             // Occluded when something else is in front of this texel from the camera (with a relative bias)
+             float sceneZ = perspectiveDepthToViewZ(texture2D(depthTexture, screenUV).x, cameraNear, cameraFar);
+             float texelZ = perspectiveDepthToViewZ(ndc.z * 0.5 + 0.5, cameraNear, cameraFar);
+             if (texelZ < sceneZ - 0.01 * abs(sceneZ)) discard;
+
+             vec4 color = texture2D(strokeTexture, screenUV);
+             if (color.a <= 0.0) discard;
+             gl_FragColor = color;
+          }
+        `,
+        side: THREE.DoubleSide,
+        blending: THREE.NoBlending // Keep straight alpha for readback
+     });
+  }, []);
+
+  // Screen position of every vertex, reused while the camera and the viewport stay put
+  const screenVertices = useRef<{ key: string; xy: Float32Array } | null>(null);
+  useEffect(() => { screenVertices.current = null; }, [meshGeometry]);
+
+  // Texel rectangle covering the UVs of every triangle whose screen footprint overlaps `screenBounds`
+  const texelBounds = (screenBounds: PixelBounds, viewProjection: THREE.Matrix4, width: number, height: number): PixelBounds | null => {
+     const position = meshGeometry.attributes.position;
+     const uv = meshGeometry.attributes.uv;
+     if (!position || !uv) return null;
+     const e = viewProjection.elements;
+     const key = `${e.join(',')}|${width}x${height}`;
+     if (screenVertices.current?.key !== key) {
+        const xy = new Float32Array(position.count * 2);
+        for (let i = 0; i < position.count; i++) {
+           const x = position.getX(i), y = position.getY(i), z = position.getZ(i);
+           const w = e[3] * x + e[7] * y + e[11] * z + e[15];
+           if (w <= 0) { xy[i * 2] = NaN; xy[i * 2 + 1] = NaN; continue; }
+           xy[i * 2] = ((e[0] * x + e[4] * y + e[8] * z + e[12]) / w * 0.5 + 0.5) * width;
+           xy[i * 2 + 1] = (0.5 - (e[1] * x + e[5] * y + e[9] * z + e[13]) / w * 0.5) * height;
+        }
+        screenVertices.current = { key, xy };
+     }
+
+     const xy = screenVertices.current.xy;
+     const index = meshGeometry.index;
+     const count = index ? index.count : position.count;
+     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+     for (let i = 0; i + 2 < count; i += 3) {
+        const a = index ? index.getX(i) : i, b = index ? index.getX(i + 1) : i + 1, c = index ? index.getX(i + 2) : i + 2;
+        // A vertex behind the camera is NaN, which fails every test, so its triangle is kept
+        if (Math.min(xy[a * 2], xy[b * 2], xy[c * 2]) > screenBounds.maxX || Math.max(xy[a * 2], xy[b * 2], xy[c * 2]) < screenBounds.minX) continue;
+        if (Math.min(xy[a * 2 + 1], xy[b * 2 + 1], xy[c * 2 + 1]) > screenBounds.maxY || Math.max(xy[a * 2 + 1], xy[b * 2 + 1], xy[c * 2 + 1]) < screenBounds.minY) continue;
+        for (const v of [a, b, c]) {
+           const tx = uv.getX(v) * TEXTURE_SIZE, ty = (1 - uv.getY(v)) * TEXTURE_SIZE;
+           if (tx < minX) minX = tx;
+           if (tx > maxX) maxX = tx;
+           if (ty < minY) minY = ty;
+           if (ty > maxY) maxY = ty;
+        }
+     }
+     // One texel of margin for rasterization at the triangle edges
+     const bounds = {
+        minX: Math.max(0, Math.floor(minX) - 1), minY: Math.max(0, Math.floor(minY) - 1),
+        maxX: Math.min(TEXTURE_SIZE - 1, Math.ceil(maxX) + 1), maxY: Math.min(TEXTURE_SIZE - 1, Math.ceil(maxY) + 1)
+     };
+     return bounds.minX > bounds.maxX || bounds.minY > bounds.maxY ? null : bounds;
+  };
+
+  const bake = useCallback((strokeCanvas: HTMLCanvasElement, cullBackfaces: boolean, screenBounds: PixelBounds) => {
+     const perspective = camera as THREE.PerspectiveCamera;
+     const width = strokeCanvas.width, height = strokeCanvas.height;
+     if (width === 0 || height === 0) return null;
+     camera.updateMatrixWorld();
+     const viewProjection = bakeMaterial.uniforms.viewProjection.value as THREE.Matrix4;
+     viewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+     const bounds = texelBounds(screenBounds, viewProjection, width, height);
+     if (!bounds) return null;
+     const patchWidth = bounds.maxX - bounds.minX + 1, patchHeight = bounds.maxY - bounds.minY + 1;
+     const row = TEXTURE_SIZE - 1 - bounds.maxY; // Render target rows run bottom-up
+
+     // 1. Depth of the mesh as the camera sees it
+     depthTarget.setSize(width, height);
+     const depthMesh = new THREE.Mesh(meshGeometry, depthMaterial);
+     scene.add(depthMesh);
+     gl.setRenderTarget(depthTarget);
+     gl.clear();
+     gl.render(scene, camera);
+     scene.remove(depthMesh);
+
+     // 2. Render the mesh in UV space, only inside the patch, looking each texel up in the screen-space stroke
+     strokeTexture.image = strokeCanvas;
+     strokeTexture.needsUpdate = true;
+     bakeMaterial.uniforms.strokeTexture.value = strokeTexture;
+     bakeMaterial.uniforms.depthTexture.value = depthTarget.depthTexture;
+     bakeMaterial.uniforms.eye.value.setFromMatrixPosition(camera.matrixWorld);
+     bakeMaterial.uniforms.cameraNear.value = perspective.near;
+     bakeMaterial.uniforms.cameraFar.value = perspective.far;
+     bakeMaterial.uniforms.cullBackfaces.value = cullBackfaces;
+
+     const bakeMesh = new THREE.Mesh(meshGeometry, bakeMaterial);
+     scene.add(bakeMesh);
+     fbo.scissor.set(bounds.minX, row, patchWidth, patchHeight);
+     fbo.scissorTest = true;
+     gl.setRenderTarget(fbo);
+     gl.setClearColor(new THREE.Color(0, 0, 0), 0);
+     gl.clear();
+     gl.render(scene, uvCamera);
+     gl.setRenderTarget(null);
+     fbo.scissorTest = false;
+     scene.remove(bakeMesh);
+
+     const buffer = new Uint8Array(patchWidth * patchHeight * 4);
+     gl.readRenderTargetPixels(fbo, bounds.minX, row, patchWidth, patchHeight, buffer);
+     return { x: bounds.minX, y: bounds.minY, image: new ImageData(new Uint8ClampedArray(buffer), patchWidth, patchHeight) };
+  }, [gl, camera, fbo, depthTarget, scene, uvCamera, strokeTexture, depthMaterial, bakeMaterial, meshGeometry]);
+
+  useImperativeHandle(ref, () => ({ bake }));
+  return null;
+});
+
+// Tools that rework the pixels under the stamp instead of laying down color
+const SAMPLING_TOOLS: BrushSettings['mode'][] = ['smudge', 'blur', 'sharpen', 'clone'];
+
+// Longest frame time the airbrush makes up for, so a stalled frame does not dump a burst of stamps
+const MAX_AIRBRUSH_DELTA = 0.1;
+
+// Seconds between bakes of a projection stroke in progress (the end of the stroke always bakes)
+const PROJECTION_FLUSH_INTERVAL = 0.1;
+
+// Most pieces one stroke step is split into where the surface curves away from the chord
+const MAX_STEP_SPLITS = 16;
+
+// Stamp frame -> texel matrix of a splat: the same chain drawStamp applies to the context
+const stampMatrix = (splat: Splat, offsetX: number, offsetY: number, angle: number) => {
+  const [a, b, c, d] = splat.transform;
+  return new DOMMatrix()
+    .translate(splat.x, splat.y)
+    .multiply(new DOMMatrix([a, b, c, d, 0, 0]))
+    .translate(offsetX, offsetY)
+    .rotate((angle * 180) / Math.PI);
+};
+
+// Copy the texels under a stamp into `out` (stamp frame, `size` stamp units across out's width)
+const sampleStamp = (source: HTMLCanvasElement, matrix: DOMMatrix, size: number, out: HTMLCanvasElement) => {
+  const ctx = out.getContext('2d')!;
+  const pixels = out.width;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, pixels, pixels);
+  const toTexel = matrix.multiply(new DOMMatrix().scale(size / pixels).translate(-pixels / 2, -pixels / 2));
+  ctx.setTransform(toTexel.inverse());
+  ctx.drawImage(source, 0, 0);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+};
+
+// ------------------------------------------------------------------
+// SYMMETRY GUIDES (Mirror planes and radial sectors, in object space)
+// ------------------------------------------------------------------
+const AXIS_COLORS: Record<Axis, string> = { x: '#ff4466', y: '#66ff66', z: '#4488ff' };
+const MIRROR_ROTATIONS: Record<Axis, [number, number, number]> = { x: [0, Math.PI / 2, 0], y: [Math.PI / 2, 0, 0], z: [0, 0, 0] };
+// Turns the Y axis onto the radial axis
+const RADIAL_ROTATIONS: Record<Axis, [number, number, number]> = { x: [0, 0, -Math.PI / 2], y: [0, 0, 0], z: [Math.PI / 2, 0, 0] };
+
+const SymmetryGuides = ({ symmetry, geometry }: { symmetry: SymmetrySettings; geometry: THREE.BufferGeometry }) => {
+  const radius = useMemo(() => {
+      if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+      return geometry.boundingSphere!.radius * 1.2;
+  }, [geometry]);
+  const steps = Math.max(1, Math.round(symmetry.radial));
+  const noRaycast = () => null;
+
+  return (
+    <group>
+      {(['x', 'y', 'z'] as Axis[]).filter(axis => symmetry.mirror[axis]).map(axis => (
+        <mesh key={axis} rotation={MIRROR_ROTATIONS[axis]} raycast={noRaycast} renderOrder={10}>
+          <planeGeometry args={[radius * 2, radius * 2]} />
+          <meshBasicMaterial color={AXIS_COLORS[axis]} transparent opacity={0.12} side={THREE.DoubleSide} depthWrite={false} />
+        </mesh>
+      ))}
+      {steps > 1 && (
+        <group rotation={RADIAL_ROTATIONS[symmetry.radialAxis]}>
+          <Line points={[[0, -radius, 0], [0, radius, 0]]} color={AXIS_COLORS[symmetry.radialAxis]} lineWidth={2} />
+          {Array.from({ length: steps }, (_, k) => (
+            <group key={k} rotation={[0, (k / steps) * Math.PI * 2, 0]}>
+              {/* Half-plane bounding one sector, hinged on the axis */}
+              <mesh position={[radius / 2, 0, 0]} raycast={noRaycast} renderOrder={10}>
+                <planeGeometry args={[radius, radius * 2]} />
+                <meshBasicMaterial color={AXIS_COLORS[symmetry.radialAxis]} transparent opacity={0.08} side={THREE.DoubleSide} depthWrite={false} />
+              </mesh>
+            </group>
+          ))}
+        </group>
+      )}
+    </group>
+  );
+};
+
 const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAltPressed: boolean }> = ({ 
-  brush, layers, activeLayerId, stencil, setStencil, isAltPressed, curvePoints, setCurvePoints 
+  brush, geometry, layers, activeLayerId, paintTarget, stencil, setStencil, isAltPressed, symmetry, curvePoints, setCurvePoints 
 }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   const [hovered, setHover] = useState(false);
   const [gizmoDragging, setGizmoDragging] = useState(false);
   const isPaintingRef = useRef(false);
-  const lastUVRef = useRef<Vec2 | null>(null); 
+  const lastPointRef = useRef<THREE.Vector3 | null>(null); // Last stamp position on the surface (mesh-local)
   const distanceAccumulatorRef = useRef(0);
   const compositeDirtyRef = useRef(false);
   const isInteractingWithStencil = gizmoDragging;
   const isStencilEditMode = stencil.visible && stencil.mode === 'edit';
   const stencilMeshRef = useRef<THREE.Group>(null);
   const bakerRef = useRef<ProjectionBakerHandle>(null);
+  const { gl, camera } = useThree();
+
+  // Freehand smoothing of the current stroke (screen space), pen/motion tracking for dynamics,
+  // and the latest pen sample
+  const stabilizerRef = useRef<StabilizerState | null>(null);
+  const strokeTrackerRef = useRef<StrokeTracker | null>(null);
+  const lastSampleRef = useRef<StrokeSample>(RESTING_SAMPLE);
+  const strokeColorRef = useRef<ColorRandoms>(DynamicsAPI.colorRandoms()); // Color offsets of per-stroke randomization
+
+  // Sampling tools. Smudge carries a pickup per symmetric copy and target surface; clone reads from a
+  // copy of each target taken at stroke start, at a fixed 3D offset from the brush.
+  const smudgePickupRef = useRef<Map<HTMLCanvasElement, HTMLCanvasElement>[]>([]);
+  const cloneSourceRef = useRef<THREE.Vector3 | null>(null); // Picked source point (mesh-local)
+  const cloneOffsetRef = useRef<THREE.Vector3 | null>(null); // Source - brush, kept across strokes until a new pick
+  const cloneSnapshotsRef = useRef<Map<HTMLCanvasElement, HTMLCanvasElement>>(new Map());
+  const cloneMarkerRef = useRef<THREE.Mesh>(null);
+  const [hasCloneSource, setHasCloneSource] = useState(false);
+  const toolCanvasesRef = useRef<{ sample: HTMLCanvasElement; tool: HTMLCanvasElement; mask: HTMLCanvasElement } | null>(null);
+  const isSampling = SAMPLING_TOOLS.includes(brush.mode);
+  const projecting = brush.projectionPaint && !isSampling; // Sampling tools always work on the surface
+
+  // Projection painting: stamps collect in a screen-sized canvas and are baked through the camera every
+  // PROJECTION_FLUSH_INTERVAL, only where they landed
+  const projectionRef = useRef<ProjectionPainterHandle>(null);
+  const strokeCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const projectedCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const projectedTintRef = useRef<HTMLCanvasElement | null>(null);
+  const lastScreenRef = useRef<{ x: number; y: number } | null>(null);
+  const projectionPendingRef = useRef(false);
+  const projectionBoundsRef = useRef<PixelBounds | null>(null); // Screen pixels stamped since the last bake
+  const projectionElapsedRef = useRef(0);
+
+  // Airbrush: where the pen currently is (surface or screen) and the stamps owed since the last emission
+  const airbrushHitRef = useRef<SurfaceHit | null>(null);
+  const airbrushScreenRef = useRef<{ x: number; y: number } | null>(null);
+  const airbrushDueRef = useRef(0);
   
   // Raycaster for robust curve projection
   const raycaster = useMemo(() => new THREE.Raycaster(), []);
 
+  // Triangle frames and UV seams of the paint surface, for strokes that continue across islands
+  const surfaceIndex = useMemo(() => SurfaceAPI.build(geometry), [geometry]);
+
+  // Mesh-local hit from a raycast/pointer intersection
+  const toSurfaceHit = (point: THREE.Vector3, uv: THREE.Vector2): SurfaceHit => ({
+      point: meshRef.current ? meshRef.current.worldToLocal(point.clone()) : point.clone(),
+      uv
+  });
+
+  // Object-space copies of every stamp besides the original
+  const symmetryTransforms = useMemo(() => SymmetryAPI.transforms(symmetry).slice(1), [symmetry]);
+
+  // Face normal under a mesh-local point (radial direction without a surface index)
+  const surfaceNormal = (p: THREE.Vector3): THREE.Vector3 =>
+      (surfaceIndex && SurfaceAPI.normalAt(surfaceIndex, p)) || p.clone().normalize();
+
+  // The surface point closest to a mesh-local `target` that may lie off the surface, found by casting
+  // back onto the mesh along `normal` from just outside it. Uses the surface index when there is one;
+  // raycasting the whole mesh is the fallback.
+  const castToSurface = (target: THREE.Vector3, normal: THREE.Vector3): SurfaceHit | null => {
+      if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+      const reach = geometry.boundingSphere!.radius * 0.25;
+      if (surfaceIndex) return SurfaceAPI.castAlong(surfaceIndex, target, normal, reach);
+      const mesh = meshRef.current;
+      if (!mesh) return null;
+
+      const origin = mesh.localToWorld(target.clone().addScaledVector(normal, reach));
+      const direction = normal.negate().transformDirection(mesh.matrixWorld);
+      const targetWorld = mesh.localToWorld(target.clone());
+      raycaster.set(origin, direction);
+      raycaster.far = reach * 2;
+      const intersects = raycaster.intersectObject(mesh, false);
+      raycaster.far = Infinity;
+
+      let best: THREE.Intersection | null = null;
+      for (const i of intersects) {
+          if (i.uv && (!best || i.point.distanceTo(targetWorld) < best.point.distanceTo(targetWorld))) best = i;
+      }
+      return best ? toSurfaceHit(best.point, best.uv!) : null;
+  };
+
+  // The surface point closest to a mesh-local `p`, such as a point on a stroke chord that cuts through the mesh
+  const snapToSurface = (p: THREE.Vector3): SurfaceHit | null =>
+      surfaceIndex ? SurfaceAPI.closestPoint(surfaceIndex, p) : castToSurface(p, surfaceNormal(p));
+
+  // The surface point matching `hit` under a symmetry transform. Casting the mirrored position along
+  // the mirrored normal lets slightly asymmetric meshes still get a surface hit.
+  const mirrorHit = (hit: SurfaceHit, transform: THREE.Matrix4): SurfaceHit | null =>
+      castToSurface(hit.point.clone().applyMatrix4(transform), surfaceNormal(hit.point).transformDirection(transform));
+
   // Curve Drag State
   const [draggingCurveIdx, setDraggingCurveIdx] = useState<number | null>(null);
+  const curveDragStartRef = useRef<CurvePoint[] | null>(null);
 
   const [lutTexture, setLutTexture] = useState<THREE.Texture | null>(null);
   const [lutBounds, setLutBounds] = useState(new THREE.Vector4());
@@ -685,8 +1290,33 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
       setLutBounds(bounds.clone());
   }, []);
 
+  // ------------------------------------------------------------------
+  // STENCIL RIG HISTORY
+  // ------------------------------------------------------------------
+  // Lattice/transform edits arrive as several state updates (per drag frame, or
+  // grid + cuts for a loop), so the "before" rig is held until the edit settles.
+  const rigEditRef = useRef<{ label: string; before: StencilRig } | null>(null);
+  const stencilRef = useRef(stencil);
+  stencilRef.current = stencil;
+
+  useEffect(() => {
+      if (gizmoDragging) {
+          if (!rigEditRef.current) rigEditRef.current = { label: 'Edit Stencil', before: StencilAPI.getRig(stencil) };
+          return;
+      }
+      const edit = rigEditRef.current;
+      if (!edit) return;
+      rigEditRef.current = null;
+      const after = StencilAPI.getRig(stencil);
+      if (StencilAPI.rigEquals(edit.before, after) || !setStencil) return;
+      history.pushState(edit.label, edit.before, after, (rig: StencilRig) => {
+          setStencil((prev: StencilSettings) => ({ ...prev, ...rig }));
+      });
+  }, [stencil, gizmoDragging, setStencil]);
+
   const handleAddLoop = useCallback((type: 'row' | 'col', val: number) => {
       if (!setStencil) return;
+      rigEditRef.current = { label: 'Add Loop Cut', before: StencilAPI.getRig(stencilRef.current) };
       setStencil((prev: StencilSettings) => {
           const prevCuts = type === 'row' ? prev.rowCuts : prev.colCuts;
           const newCuts = StencilAPI.addCut(prevCuts, val);
@@ -698,52 +1328,124 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
       });
   }, [setStencil]);
 
+  // Removing a cut drops its row or column of points in the same update
+  const handleRemoveLoop = useCallback((type: 'row' | 'col', index: number) => {
+      if (!setStencil) return;
+      rigEditRef.current = { label: 'Remove Loop Cut', before: StencilAPI.getRig(stencilRef.current) };
+      setStencil((prev: StencilSettings) => {
+          const cuts = type === 'row' ? prev.rowCuts : prev.colCuts;
+          const newCuts = StencilAPI.removeCut(cuts, index);
+          if (newCuts === cuts) return prev; // Border cuts stay
+          const grid = prev.gridPoints ?? StencilAPI.createGrid(prev.aspectRatio);
+          return type === 'row'
+              ? { ...prev, rowCuts: newCuts, gridPoints: GridUtils.removeRow(grid, index) }
+              : { ...prev, colCuts: newCuts, gridPoints: GridUtils.removeCol(grid, index) };
+      });
+  }, [setStencil]);
+
+  const handleGridEdit = useCallback((label: string) => {
+      rigEditRef.current = { label, before: StencilAPI.getRig(stencilRef.current) };
+  }, []);
+
+  const handleGridChange = useCallback((update: (grid: Vec3[][]) => Vec3[][]) => {
+      if (!setStencil) return;
+      setStencil((prev: StencilSettings) => ({
+          ...prev,
+          gridPoints: update(prev.gridPoints ?? StencilAPI.createGrid(prev.aspectRatio))
+      }));
+  }, [setStencil]);
+
+  const handleTransformChange = useCallback((transform: StencilTransform) => {
+      if (!setStencil) return;
+      setStencil((prev: StencilSettings) => ({ ...prev, transform }));
+  }, [setStencil]);
+
+  // Curve overlay floats just above the surface, scaled to the mesh
+  const curveLift = useMemo(() => {
+      if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+      return geometry.boundingSphere!.radius * 0.02;
+  }, [geometry]);
+
+  // Curve point at a surface hit: mesh-local position and the normal of the face it lies on
+  const toCurvePoint = (hit: SurfaceHit): CurvePoint => {
+      const n = surfaceNormal(hit.point);
+      return { x: hit.point.x, y: hit.point.y, z: hit.point.z, normal: { x: n.x, y: n.y, z: n.z } };
+  };
+
+  // Normal a curve point is cast back along (from the surface for points saved without one)
+  const curveNormal = (p: CurvePoint): THREE.Vector3 =>
+      p.normal ? new THREE.Vector3(p.normal.x, p.normal.y, p.normal.z).normalize() : surfaceNormal(new THREE.Vector3(p.x, p.y, p.z));
+
   // Curve Logic Helper
-  const addCurvePoint = useCallback((p: THREE.Vector3) => {
+  const addCurvePoint = useCallback((pt: CurvePoint) => {
      if (!setCurvePoints || !curvePoints) return;
-     const pt: Vec3 = { x: p.x, y: p.y, z: p.z };
      
+     let next: CurvePoint[];
      if (curvePoints.length === 0) {
-         setCurvePoints([pt]);
+         next = [pt];
      } else {
-         const lastAnchor = new THREE.Vector3(curvePoints[curvePoints.length-1].x, curvePoints[curvePoints.length-1].y, curvePoints[curvePoints.length-1].z);
-         const newPoint = p;
-         const c1 = new THREE.Vector3().lerpVectors(lastAnchor, newPoint, 0.33);
-         const c2 = new THREE.Vector3().lerpVectors(lastAnchor, newPoint, 0.66);
-         setCurvePoints(prev => [...prev, {x:c1.x,y:c1.y,z:c1.z}, {x:c2.x,y:c2.y,z:c2.z}, pt]);
+         // Control points start on the chord, with normals blended between the anchors'
+         const last = curvePoints[curvePoints.length - 1];
+         const lastAnchor = new THREE.Vector3(last.x, last.y, last.z);
+         const newPoint = new THREE.Vector3(pt.x, pt.y, pt.z);
+         const lastNormal = curveNormal(last);
+         const newNormal = curveNormal(pt);
+         const control = (t: number): CurvePoint => {
+             const c = new THREE.Vector3().lerpVectors(lastAnchor, newPoint, t);
+             const n = new THREE.Vector3().lerpVectors(lastNormal, newNormal, t).normalize();
+             return { x: c.x, y: c.y, z: c.z, normal: { x: n.x, y: n.y, z: n.z } };
+         };
+         next = [...curvePoints, control(0.33), control(0.66), pt];
      }
-  }, [curvePoints, setCurvePoints]);
+     setCurvePoints(next);
+     history.pushState('Add Curve Point', curvePoints, next, setCurvePoints);
+  }, [curvePoints, setCurvePoints, surfaceIndex]);
 
-  const updateCurvePoint = useCallback((idx: number, p: THREE.Vector3) => {
+  const updateCurvePoint = useCallback((idx: number, pt: CurvePoint) => {
       if (!setCurvePoints || !curvePoints) return;
       const pts = [...curvePoints];
-      const old = new THREE.Vector3(pts[idx].x, pts[idx].y, pts[idx].z);
-      const delta = p.clone().sub(old);
-      pts[idx] = { x: p.x, y: p.y, z: p.z };
+      const delta = { x: pt.x - pts[idx].x, y: pt.y - pts[idx].y, z: pt.z - pts[idx].z };
+      pts[idx] = pt;
 
-      // Anchor Move Logic
+      // Anchor Move Logic: its control points move along (keeping their normals)
       if (idx % 3 === 0) {
-         if (idx - 1 >= 0) {
-            const prev = new THREE.Vector3(pts[idx-1].x, pts[idx-1].y, pts[idx-1].z).add(delta);
-            pts[idx-1] = { x: prev.x, y: prev.y, z: prev.z };
-         }
-         if (idx + 1 < pts.length) {
-            const next = new THREE.Vector3(pts[idx+1].x, pts[idx+1].y, pts[idx+1].z).add(delta);
-            pts[idx+1] = { x: next.x, y: next.y, z: next.z };
-         }
+         [idx - 1, idx + 1].forEach(i => {
+            if (i < 0 || i >= pts.length) return;
+            pts[i] = { ...pts[i], x: pts[i].x + delta.x, y: pts[i].y + delta.y, z: pts[i].z + delta.z };
+         });
       }
       setCurvePoints(pts);
   }, [curvePoints, setCurvePoints]);
 
+  // Mask strokes always paint white: paint reveals, erase hides
+  const paintColor = paintTarget === 'mask' ? '#ffffff' : brush.color;
+
+  // Where a stroke on `layer` lands: its mask, or each selected material channel in that channel's value.
+  // Lock alpha only applies to the layer's own channels, never to the mask.
+  const getStampTargets = useCallback((layer: Layer): StampTarget[] => {
+      if (paintTarget === 'mask' && layer.mask) {
+          return [{ ctx: layer.mask.ctx, color: '#ffffff', lockAlpha: false, textured: false }];
+      }
+      return brush.channels.map(channel => ({
+          ctx: LayerAPI.ensureChannel(layer, channel).ctx,
+          color: BrushAPI.channelColor(brush, channel),
+          lockAlpha: layer.lockAlpha,
+          textured: channel === 'color'
+      }));
+  }, [brush, paintTarget]);
+
   useEffect(() => {
-    const handleBakeRequest = (data: { layerId: string }) => {
+    const handleBakeRequest = (data: { layerId: string; target?: PaintTarget }) => {
         if (!bakerRef.current) return;
         const targetId = data.layerId;
-        const layer = layers.find(l => l.id === targetId);
+        const layer = LayerAPI.findLayer(layers, targetId);
         if (!layer) return;
+        const surface = LayerAPI.getSurface(layer, data.target ?? 'color');
+        const intoMask = surface !== layer;
 
         const imageData = bakerRef.current.bake();
         if (!imageData) return;
+        if (intoMask) LayerAPI.toMaskImage(imageData);
 
         const tempCvs = document.createElement('canvas');
         tempCvs.width = TEXTURE_SIZE;
@@ -752,19 +1454,32 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
         if (!tempCtx) return;
         
         tempCtx.putImageData(imageData, 0, 0);
-        layer.ctx.save();
-        layer.ctx.globalCompositeOperation = 'source-over';
-        layer.ctx.globalAlpha = 1.0;
-        layer.ctx.scale(1, -1);
-        layer.ctx.drawImage(tempCvs, 0, -TEXTURE_SIZE);
-        layer.ctx.restore();
+        history.recordPixels(surface, intoMask ? 'Project Stencil to Mask' : 'Project Stencil', () => {
+            surface.ctx.save();
+            surface.ctx.globalCompositeOperation = 'source-over';
+            surface.ctx.globalAlpha = 1.0;
+            surface.ctx.scale(1, -1);
+            surface.ctx.drawImage(tempCvs, 0, -TEXTURE_SIZE);
+            surface.ctx.restore();
+        });
         
         compositeDirtyRef.current = true;
     };
     
     // Curve Rasterization
-    const handleCurveStroke = () => renderCurve('stroke', layers.find(l => l.id === activeLayerId)?.ctx);
-    const handleCurveFill = () => renderCurve('fill', layers.find(l => l.id === activeLayerId)?.ctx);
+    const handleCurveStroke = () => {
+        const layer = LayerAPI.findLayer(layers, activeLayerId);
+        if (!layer) return;
+        // Stamps mark their own dirty tiles
+        history.beginPixels(LayerAPI.getPaintSurfaces(layer, paintTarget, brush.channels), 'Curve Stroke');
+        renderCurve('stroke', getStampTargets(layer));
+        history.endPixels();
+    };
+    const handleCurveFill = () => {
+        const layer = LayerAPI.findLayer(layers, activeLayerId);
+        if (!layer) return;
+        history.recordPixels(LayerAPI.getPaintSurfaces(layer, paintTarget, brush.channels), 'Curve Fill', () => renderCurve('fill', getStampTargets(layer)));
+    };
 
     const unsubBake = eventBus.on(Events.REQ_BAKE_PROJECTION, handleBakeRequest);
     const unsubStroke = eventBus.on(Events.CMD_CURVE_STROKE, handleCurveStroke);
@@ -772,7 +1487,7 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
     const unsubComp = eventBus.on(Events.REFRESH_COMPOSITE, () => { compositeDirtyRef.current = true; });
 
     return () => { unsubBake(); unsubStroke(); unsubFill(); unsubComp(); };
-  }, [layers, curvePoints, activeLayerId]); 
+  }, [layers, curvePoints, activeLayerId, paintTarget, brush.channels, getStampTargets, symmetryTransforms]); 
 
   // Create a separate Preview Canvas for Live Curve Preview
   const previewCanvas = useMemo(() => {
@@ -782,118 +1497,124 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
       return cvs;
   }, []);
 
-  const renderCurve = useCallback((type: 'stroke' | 'fill' | 'none', targetCtx?: CanvasRenderingContext2D | null) => {
-      if (!curvePoints || curvePoints.length < 2 || type === 'none' || !targetCtx || !meshRef.current) return;
+  const renderCurve = useCallback((type: 'stroke' | 'fill' | 'none', targets: StampTarget[]) => {
+      if (!curvePoints || curvePoints.length < 2 || type === 'none' || targets.length === 0 || !meshRef.current) return;
       
-      const path = new THREE.CurvePath<THREE.Vector3>();
-      const offset = 0.5; // Offset start points further out to ensure raycast hits top surface
-      const project = (v: Vec3) => new THREE.Vector3(v.x, v.y, v.z).normalize().multiplyScalar(2.0 + offset);
-
-      for (let i = 0; i < curvePoints.length - 3; i += 3) {
-          path.add(new THREE.CubicBezierCurve3(
-              project(curvePoints[i]),
-              project(curvePoints[i+1]),
-              project(curvePoints[i+2]),
-              project(curvePoints[i+3])
-          ));
+      // Samples along the curve (mesh-local), each with the normal blended between its segment's anchors.
+      // They are cast back onto the surface along that normal, so any mesh shape works.
+      const toVector = (v: Vec3) => new THREE.Vector3(v.x, v.y, v.z);
+      const samples: { point: THREE.Vector3; normal: THREE.Vector3 }[] = [];
+      const segments = Math.floor((curvePoints.length - 1) / 3);
+      const steps = Math.max(50, Math.ceil(200 / Math.max(1, segments)));
+      for (let i = 0; i + 3 < curvePoints.length; i += 3) {
+          const bezier = new THREE.CubicBezierCurve3(
+              toVector(curvePoints[i]), toVector(curvePoints[i+1]), toVector(curvePoints[i+2]), toVector(curvePoints[i+3])
+          );
+          const n0 = curveNormal(curvePoints[i]);
+          const n1 = curveNormal(curvePoints[i+3]);
+          for (let s = i === 0 ? 0 : 1; s <= steps; s++) {
+              const t = s / steps;
+              samples.push({ point: bezier.getPoint(t), normal: new THREE.Vector3().lerpVectors(n0, n1, t).normalize() });
+          }
       }
 
-      const subdivisions = Math.max(200, path.curves.length * 50);
-      const points = path.getPoints(subdivisions);
-
       if (type === 'stroke') {
           // Temporarily store original state to avoid side effects on manual painting
-          const prevLastUV = lastUVRef.current;
+          const prevLastPoint = lastPointRef.current;
           const prevDist = distanceAccumulatorRef.current;
           
-          lastUVRef.current = null;
+          lastPointRef.current = null;
           distanceAccumulatorRef.current = 0;
 
-          points.forEach(p => {
-              // Robust Projection: Raycast from outer point towards center/mesh to find exact surface UV
-              const dir = p.clone().negate().normalize();
-              raycaster.set(p, dir);
-              const intersects = raycaster.intersectObject(meshRef.current!, false);
-              
-              if (intersects.length > 0) {
-                  const uv = intersects[0].uv;
-                  if (uv) paintStroke(uv, 1.0, true, targetCtx);
-              }
+          samples.forEach(({ point, normal }) => {
+              const hit = castToSurface(point, normal.clone());
+              // Spaced like a freehand stroke: stamping every curve sample would pile soft tips up into hard ones
+              if (hit) paintStroke(hit, RESTING_SAMPLE, false, targets);
           });
 
           // Restore state
-          lastUVRef.current = prevLastUV;
+          lastPointRef.current = prevLastPoint;
           distanceAccumulatorRef.current = prevDist;
       } else {
-          // Fill: Collect UVs first via Raycast
-          const uvPoints: THREE.Vector2[] = [];
+          // Fill: Collect UVs first via Raycast, once per symmetric copy of the curve
+          [new THREE.Matrix4(), ...symmetryTransforms].forEach(transform => {
+              const uvPoints: THREE.Vector2[] = [];
+          
+              samples.forEach(({ point, normal }) => {
+                  const hit = castToSurface(point.clone().applyMatrix4(transform), normal.clone().transformDirection(transform));
+                  if (hit) uvPoints.push(hit.uv);
+              });
           
-          points.forEach(p => {
-              const dir = p.clone().negate().normalize();
-              raycaster.set(p, dir);
-              const intersects = raycaster.intersectObject(meshRef.current!, false);
-              if (intersects.length > 0 && intersects[0].uv) {
-                  uvPoints.push(intersects[0].uv);
+              if (uvPoints.length > 2) {
+                targets.forEach(({ ctx: targetCtx, color, lockAlpha }) => {
+                  targetCtx.fillStyle = color;
+                  targetCtx.globalAlpha = brush.opacity;
+                  targetCtx.globalCompositeOperation = lockAlpha ? 'source-atop' : 'source-over';
+                  targetCtx.beginPath();
+                  targetCtx.moveTo(uvPoints[0].x * TEXTURE_SIZE, (1 - uvPoints[0].y) * TEXTURE_SIZE);
+                  for(let i=1; i<uvPoints.length; i++) {
+                      targetCtx.lineTo(uvPoints[i].x * TEXTURE_SIZE, (1 - uvPoints[i].y) * TEXTURE_SIZE);
+                  }
+                  targetCtx.closePath();
+                  targetCtx.fill();
+                  targetCtx.globalCompositeOperation = 'source-over';
+                });
               }
           });
-          
-          if (uvPoints.length > 2) {
-            targetCtx.fillStyle = brush.color;
-            targetCtx.globalAlpha = brush.opacity;
-            targetCtx.globalCompositeOperation = 'source-over';
-            targetCtx.beginPath();
-            targetCtx.moveTo(uvPoints[0].x * TEXTURE_SIZE, (1 - uvPoints[0].y) * TEXTURE_SIZE);
-            for(let i=1; i<uvPoints.length; i++) {
-                targetCtx.lineTo(uvPoints[i].x * TEXTURE_SIZE, (1 - uvPoints[i].y) * TEXTURE_SIZE);
-            }
-            targetCtx.closePath();
-            targetCtx.fill();
-          }
       }
       compositeDirtyRef.current = true;
-  }, [curvePoints, brush]);
+  }, [curvePoints, brush, symmetryTransforms, surfaceIndex, geometry]);
 
-  // Live Curve Preview Effect
-  useEffect(() => {
+  // Live curve preview, redrawn at most once per frame however fast a curve point is dragged
+  const curvePreviewDirtyRef = useRef(false);
+  const drawCurvePreview = () => {
      // Clear preview canvas first
      const ctx = previewCanvas.getContext('2d');
      if(ctx) ctx.clearRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
 
-     if (brush.mode === 'curve' && brush.curvePreviewMode !== 'none') {
-         renderCurve(brush.curvePreviewMode, ctx);
+     if (ctx && brush.mode === 'curve' && brush.curvePreviewMode !== 'none') {
+         // The preview shows what the stroke does to the visible color (or white for masks)
+         renderCurve(brush.curvePreviewMode, [{ ctx, color: paintColor, lockAlpha: false, textured: paintTarget === 'color' }]);
      } else {
          compositeDirtyRef.current = true; // Ensure clearing if mode changed to none
      }
-  }, [curvePoints, brush.curvePreviewMode, brush.size, brush.color, brush.opacity, brush.maskImage, brush.spacing, renderCurve]);
+  };
+  useEffect(() => {
+     curvePreviewDirtyRef.current = true;
+  }, [curvePoints, brush.curvePreviewMode, brush.size, brush.color, brush.opacity, brush.maskImage, brush.spacing, renderCurve, paintColor, paintTarget]);
 
   useEffect(() => { compositeDirtyRef.current = true; }, [layers]);
 
-  const compositeCanvas = useMemo(() => {
-    const canvas = document.createElement('canvas');
-    canvas.width = TEXTURE_SIZE;
-    canvas.height = TEXTURE_SIZE;
-    return canvas;
+  // One composite canvas + texture per material channel. Color and emissive are colors (sRGB);
+  // roughness, metallic and height are raw data.
+  const channelTextures = useMemo(() => {
+    const entries = MATERIAL_CHANNELS.map(({ value, fill }) => {
+      const canvas = document.createElement('canvas');
+      canvas.width = TEXTURE_SIZE;
+      canvas.height = TEXTURE_SIZE;
+      const tex = new THREE.CanvasTexture(canvas);
+      tex.colorSpace = value === 'color' || value === 'emissive' ? THREE.SRGBColorSpace : THREE.NoColorSpace;
+      tex.minFilter = THREE.LinearFilter;
+      tex.generateMipmaps = false; 
+      return [value, { canvas, texture: tex, fill, used: true }] as const;
+    });
+    return Object.fromEntries(entries) as Record<MaterialChannel, { canvas: HTMLCanvasElement; texture: THREE.CanvasTexture; fill: string | null; used: boolean }>;
   }, []);
+  const compositeCanvas = channelTextures.color.canvas;
+  const compositeTexture = channelTextures.color.texture;
   
-  const compositeTexture = useMemo(() => {
-    const tex = new THREE.CanvasTexture(compositeCanvas);
-    tex.colorSpace = THREE.SRGBColorSpace;
-    tex.minFilter = THREE.LinearFilter;
-    tex.generateMipmaps = false; 
-    return tex;
-  }, [compositeCanvas]);
-  
-  useFrame(() => {
+  useFrame((_, delta) => {
+    if (isPaintingRef.current && brush.isAirbrush) emitAirbrush(delta);
+    projectionElapsedRef.current += delta;
+    if (projectionPendingRef.current && projectionElapsedRef.current >= PROJECTION_FLUSH_INTERVAL) flushProjection();
+    if (curvePreviewDirtyRef.current) {
+        curvePreviewDirtyRef.current = false;
+        drawCurvePreview();
+    }
     if (compositeDirtyRef.current) {
         const ctx = compositeCanvas.getContext('2d');
         if (ctx) {
-            ctx.clearRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
-            layers.forEach(layer => {
-              if (layer.visible) {
-                ctx.globalAlpha = layer.opacity;
-                ctx.drawImage(layer.canvas, 0, 0);
-              }
-            });
+            CompositeAPI.compose(ctx, layers);
             
             // Composite Curve Preview on top
             if (brush.mode === 'curve' && brush.curvePreviewMode !== 'none') {
@@ -903,6 +1624,26 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
 
             compositeTexture.needsUpdate = true;
         }
+
+        // Data channels: composite over the channel's neutral value. Channels no layer carries
+        // are filled once and then left alone.
+        const paintLayers = LayerAPI.getLayers(layers);
+        MATERIAL_CHANNELS.forEach(({ value }) => {
+            if (value === 'color') return;
+            const entry = channelTextures[value];
+            const used = paintLayers.some(l => l.channels[value]);
+            if (!used && !entry.used) return;
+            const channelCtx = entry.canvas.getContext('2d');
+            if (!channelCtx) return;
+            CompositeAPI.compose(channelCtx, used ? layers : [], value);
+            channelCtx.save();
+            channelCtx.globalCompositeOperation = 'destination-over';
+            channelCtx.fillStyle = entry.fill!;
+            channelCtx.fillRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+            channelCtx.restore();
+            entry.used = used;
+            entry.texture.needsUpdate = true;
+        });
         compositeDirtyRef.current = false;
     }
   });
@@ -916,110 +1657,518 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
      } else { maskCanvasRef.current = null; }
   }, [brush.maskImage]);
 
-  const drawStamp = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, pressure: number = 1.0) => {
-      // Calculate dynamic size/opacity based on pressure if enabled
-      // If usePressure is false, we ignore the pressure arg (default 1.0)
-      const pFactor = brush.usePressure ? pressure : 1.0;
-      
-      // Heuristic: Pressure affects Size slightly (50%-100%) and Opacity/Flow heavily
-      const dynamicSize = brush.size * (brush.usePressure ? (0.5 + 0.5 * pFactor) : 1.0);
-      const dynamicOpacity = brush.opacity * (brush.usePressure ? Math.max(0.1, pFactor) : 1.0);
-      
+  // Alpha mask of the current tip: the image tip, or the procedural tip rendered for this size and
+  // hardness. Null for the plain round tip, which is drawn directly.
+  const tipMask = useCallback((hardness: number, size: number): HTMLCanvasElement | null => {
+      if (maskCanvasRef.current) return maskCanvasRef.current;
+      return TipAPI.isPlain(brush.tip) ? null : TipAPI.mask(brush.tip, hardness, size);
+  }, [brush.tip]);
+
+  // The tip as drawn with `color`: tinted (and mixed with an image tip's own colors when `textured`)
+  // for painting, the raw alpha mask for erasing. Null for the plain round tip.
+  const prepareTip = useCallback((color: string, textured: boolean, size: number, hardness: number): HTMLCanvasElement | null => {
+      const mask = tipMask(hardness, size);
+      if (!mask) return null;
+      if (brush.mode !== 'paint') return mask;
+      if (!tintCanvasRef.current) tintCanvasRef.current = document.createElement('canvas');
+      const tCvs = tintCanvasRef.current;
+      // Whole pixels; the caller scales the tinted tip back to the exact (fractional) stamp size
+      const pixels = Math.max(1, Math.ceil(size));
+      if (tCvs.width !== pixels || tCvs.height !== pixels) { tCvs.width = pixels; tCvs.height = pixels; }
+      const tCtx = tCvs.getContext('2d')!;
+      tCtx.clearRect(0, 0, pixels, pixels);
+      tCtx.globalCompositeOperation = 'source-over';
+      tCtx.globalAlpha = 1;
+      tCtx.fillStyle = color;
+      tCtx.fillRect(0, 0, pixels, pixels);
+      tCtx.globalCompositeOperation = 'destination-in';
+      tCtx.drawImage(mask, 0, 0, mask.width, mask.height, 0, 0, pixels, pixels);
+      if (brush.textureMix > 0 && textured && mask === maskCanvasRef.current) {
+          tCtx.globalCompositeOperation = 'source-over';
+          tCtx.globalAlpha = brush.textureMix;
+          tCtx.drawImage(mask, 0, 0, mask.width, mask.height, 0, 0, pixels, pixels);
+      }
+      return tCvs;
+  }, [brush.mode, brush.textureMix, tipMask]);
+
+  // Sampling tools: build each target's stamp from the pixels already on it (or on the clone source),
+  // then blend it back in through the tip. `copy` selects the smudge pickup of a symmetric copy.
+  const drawSampled = useCallback((targets: StampTarget[], splats: Splat[], frame: StampFrame, source: Splat[] | undefined, copy: number) => {
+      const isPrimary = (splat: Splat) => splat.transform[0] === 1 && splat.transform[1] === 0 && splat.transform[2] === 0 && splat.transform[3] === 1;
+      const primary = splats.find(isPrimary) ?? splats[0];
+      const sourceSplat = source && source.length > 0 ? source.find(isPrimary) ?? source[0] : null;
+      if (brush.mode === 'clone' && !sourceSplat) return;
+
+      const pixels = Math.max(2, Math.ceil(frame.size));
+      if (!toolCanvasesRef.current) {
+          toolCanvasesRef.current = { sample: document.createElement('canvas'), tool: document.createElement('canvas'), mask: document.createElement('canvas') };
+      }
+      const { sample, tool, mask } = toolCanvasesRef.current;
+      [sample, tool, mask].forEach(c => { if (c.width !== pixels) { c.width = pixels; c.height = pixels; } });
+      const tCtx = tool.getContext('2d')!;
+
+      // Tip coverage in the stamp frame: the processed image tip, or the round tip
+      const mCtx = mask.getContext('2d')!;
+      mCtx.clearRect(0, 0, pixels, pixels);
+      const tipImage = tipMask(frame.hardness, frame.size);
+      if (tipImage) {
+          mCtx.drawImage(tipImage, 0, 0, tipImage.width, tipImage.height, 0, 0, pixels, pixels);
+      } else {
+          mCtx.save();
+          mCtx.translate(pixels / 2, pixels / 2);
+          TipAPI.drawRound(mCtx, pixels / 2, '#ffffff', frame.hardness);
+          mCtx.restore();
+      }
+
+      const here = stampMatrix(primary, frame.offsetX, frame.offsetY, frame.angle);
+      const radius = frame.size / 2;
+
+      targets.forEach(({ ctx, lockAlpha }) => {
+          const canvas = ctx.canvas;
+          let alpha = frame.opacity * frame.flow;
+          let pickup: HTMLCanvasElement | undefined;
+
+          switch (brush.mode) {
+              case 'clone': {
+                  const snapshot = cloneSnapshotsRef.current.get(canvas) ?? canvas;
+                  sampleStamp(snapshot, stampMatrix(sourceSplat!, frame.offsetX, frame.offsetY, frame.angle), frame.size, tool);
+                  break;
+              }
+              case 'blur':
+              case 'sharpen': {
+                  sampleStamp(canvas, here, frame.size, sample);
+                  const image = sample.getContext('2d')!.getImageData(0, 0, pixels, pixels);
+                  tCtx.putImageData(brush.mode === 'blur'
+                      ? FilterAPI.blur(image, pixels * 0.08 * brush.strength)
+                      : FilterAPI.sharpen(image, Math.max(1, pixels * 0.04), brush.strength), 0, 0);
+                  break;
+              }
+              case 'smudge': {
+                  sampleStamp(canvas, here, frame.size, sample);
+                  const pickups = smudgePickupRef.current[copy] ?? (smudgePickupRef.current[copy] = new Map());
+                  pickup = pickups.get(canvas);
+                  if (!pickup) {
+                      // First stamp of the stroke: load the brush without depositing anything
+                      pickup = document.createElement('canvas');
+                      pickup.width = pixels;
+                      pickup.height = pixels;
+                      pickup.getContext('2d')!.drawImage(sample, 0, 0);
+                      pickups.set(canvas, pickup);
+                      return;
+                  }
+                  tCtx.clearRect(0, 0, pixels, pixels);
+                  tCtx.drawImage(pickup, 0, 0, pickup.width, pickup.height, 0, 0, pixels, pixels);
+                  if (pickup.width !== pixels) {
+                      // Stamp size changed (dynamics): carry the pickup over at the new size
+                      pickup.width = pixels;
+                      pickup.height = pixels;
+                      pickup.getContext('2d')!.drawImage(tool, 0, 0);
+                  }
+                  alpha = frame.opacity; // Flow sets how fast the pickup takes on new pigment instead
+                  break;
+              }
+          }
+
+          tCtx.globalCompositeOperation = 'destination-in';
+          tCtx.drawImage(mask, 0, 0);
+          tCtx.globalCompositeOperation = 'source-over';
+
+          splats.forEach(splat => {
+              const [a, b, c, d] = splat.transform;
+              history.markDirty(canvas, splat.x, splat.y, frame.reach * Math.max(Math.hypot(a, b), Math.hypot(c, d)) * Math.SQRT2 + 2);
+
+              ctx.save();
+              if (splat.clip) ctx.clip(splat.clip);
+              ctx.translate(splat.x, splat.y);
+              ctx.transform(a, b, c, d, 0, 0);
+              ctx.translate(frame.offsetX, frame.offsetY);
+              ctx.rotate(frame.angle);
+              ctx.globalAlpha = alpha;
+              if (lockAlpha) {
+                  ctx.globalCompositeOperation = 'source-atop';
+                  ctx.drawImage(tool, -radius, -radius, frame.size, frame.size);
+              } else {
+                  // Replace rather than cover (dst * (1 - k) + tool * k), so transparency moves too
+                  ctx.globalCompositeOperation = 'destination-out';
+                  ctx.drawImage(mask, -radius, -radius, frame.size, frame.size);
+                  ctx.globalCompositeOperation = 'lighter';
+                  ctx.drawImage(tool, -radius, -radius, frame.size, frame.size);
+              }
+              ctx.restore();
+          });
+
+          if (pickup) {
+              // Mix what was under the stamp into the pickup
+              const pCtx = pickup.getContext('2d')!;
+              pCtx.globalAlpha = frame.flow;
+              pCtx.globalCompositeOperation = 'destination-out';
+              pCtx.fillRect(0, 0, pixels, pixels);
+              pCtx.globalCompositeOperation = 'lighter';
+              pCtx.drawImage(sample, 0, 0);
+              pCtx.globalCompositeOperation = 'source-over';
+              pCtx.globalAlpha = 1;
+          }
+      });
+  }, [brush.mode, brush.strength, tipMask]);
+
+  // Stamp the tip once into every target. Jitter and rotation are drawn once per stamp, in the stamp
+  // frame, so channels and the splats on either side of a UV seam stay aligned.
+  // Sampling tools take the clone source placement (`source`) and the symmetric copy index (`copy`).
+  const drawStamp = useCallback((targets: StampTarget[], splats: Splat[], sample: StrokeSample = RESTING_SAMPLE, source?: Splat[], copy: number = 0) => {
+      if (splats.length === 0) return;
+      // Size, opacity, etc. for this stamp after the brush's dynamics mappings
+      const dyn = DynamicsAPI.resolve(brush, sample);
+      const dynamicSize = Math.max(0.5, dyn.size);
       const radius = dynamicSize / 2;
       
-      let posX = x;
-      let posY = y;
-      if (brush.positionJitter > 0) {
-         const jitterAmount = brush.size * brush.positionJitter;
-         posX += (Math.random() - 0.5) * jitterAmount;
-         posY += (Math.random() - 0.5) * jitterAmount;
+      let offsetX = 0;
+      let offsetY = 0;
+      if (dyn.jitter > 0) {
+         const jitterAmount = brush.size * dyn.jitter;
+         offsetX = (Math.random() - 0.5) * jitterAmount;
+         offsetY = (Math.random() - 0.5) * jitterAmount;
       }
-      let angle = (brush.rotation * Math.PI) / 180;
+      let angle = (dyn.rotation * Math.PI) / 180;
       if (brush.rotationJitter > 0) {
          angle += (Math.random() - 0.5) * 2 * Math.PI * brush.rotationJitter;
       }
-      
-      ctx.save();
-      ctx.translate(posX, posY);
-      ctx.rotate(angle);
-      ctx.translate(-posX, -posY);
-      
-      ctx.globalAlpha = dynamicOpacity * brush.flow;
-      
-      if (brush.mode === 'erase') { ctx.globalCompositeOperation = 'destination-out'; } else { ctx.globalCompositeOperation = 'source-over'; }
-      const drawX = posX - radius;
-      const drawY = posY - radius;
-      if (maskCanvasRef.current) {
-          const mask = maskCanvasRef.current;
-          if (brush.mode === 'paint') {
-              if (!tintCanvasRef.current) tintCanvasRef.current = document.createElement('canvas');
-              const tCvs = tintCanvasRef.current;
-              if (tCvs.width !== dynamicSize || tCvs.height !== dynamicSize) { tCvs.width = dynamicSize; tCvs.height = dynamicSize; }
-              const tCtx = tCvs.getContext('2d')!;
-              tCtx.clearRect(0, 0, dynamicSize, dynamicSize);
-              tCtx.globalCompositeOperation = 'source-over';
-              tCtx.fillStyle = brush.color;
-              tCtx.fillRect(0, 0, dynamicSize, dynamicSize);
-              tCtx.globalCompositeOperation = 'destination-in';
-              tCtx.drawImage(mask, 0, 0, mask.width, mask.height, 0, 0, dynamicSize, dynamicSize);
-              if (brush.textureMix > 0) {
-                  tCtx.globalCompositeOperation = 'source-over';
-                  tCtx.globalAlpha = brush.textureMix;
-                  tCtx.drawImage(mask, 0, 0, mask.width, mask.height, 0, 0, dynamicSize, dynamicSize);
+      const colorRandoms = brush.colorRandomize === 'stamp' ? DynamicsAPI.colorRandoms() : strokeColorRef.current;
+      const reach = radius * Math.SQRT2 + Math.hypot(offsetX, offsetY); // Rotated square tip bounds
+
+      if (SAMPLING_TOOLS.includes(brush.mode)) {
+          drawSampled(targets, splats, { size: dynamicSize, offsetX, offsetY, angle, reach, opacity: dyn.opacity, flow: dyn.flow, hardness: dyn.hardness }, source, copy);
+          return;
+      }
+
+      targets.forEach(({ ctx, color, lockAlpha, textured }) => {
+          // Erasing would change coverage, so a locked layer ignores it
+          if (lockAlpha && brush.mode === 'erase') return;
+
+          // Tint a colored copy of the tip once per target; every splat reuses it.
+          // Color dynamics vary the base color only; data channels and masks keep their values.
+          const stampColor = textured && brush.mode === 'paint'
+              ? DynamicsAPI.stampColor(brush, color, sample, colorRandoms, dyn.hueShift)
+              : DynamicsAPI.shiftHue(color, dyn.hueShift);
+          const tip = prepareTip(stampColor, textured, dynamicSize, dyn.hardness);
+
+          splats.forEach(splat => {
+              const [a, b, c, d] = splat.transform;
+              // Bound of the splat's footprint in this chart's texels
+              history.markDirty(ctx.canvas, splat.x, splat.y, reach * Math.max(Math.hypot(a, b), Math.hypot(c, d)) * Math.SQRT2 + 2);
+
+              ctx.save();
+              if (splat.clip) ctx.clip(splat.clip);
+              ctx.translate(splat.x, splat.y);
+              ctx.transform(a, b, c, d, 0, 0);
+              ctx.translate(offsetX, offsetY);
+              ctx.rotate(angle);
+              
+              ctx.globalAlpha = dyn.opacity * dyn.flow;
+              
+              if (brush.mode === 'erase') { ctx.globalCompositeOperation = 'destination-out'; } else { ctx.globalCompositeOperation = lockAlpha ? 'source-atop' : 'source-over'; }
+              if (tip) {
+                  ctx.drawImage(tip, 0, 0, tip.width, tip.height, -radius, -radius, dynamicSize, dynamicSize);
+              } else {
+                  TipAPI.drawRound(ctx, radius, brush.mode === 'paint' ? stampColor : '#ffffff', dyn.hardness);
               }
-              ctx.drawImage(tCvs, drawX, drawY, dynamicSize, dynamicSize);
-          } else {
-              ctx.drawImage(mask, 0, 0, mask.width, mask.height, drawX, drawY, dynamicSize, dynamicSize);
-          }
-      } else {
-          if (brush.mode === 'paint') ctx.fillStyle = brush.color;
-          else ctx.fillStyle = '#ffffff'; 
-          ctx.beginPath(); 
-          ctx.arc(posX, posY, radius, 0, Math.PI*2); 
-          ctx.fill();
+              ctx.restore();
+          });
+      });
+  }, [brush, prepareTip, drawSampled]);
+
+  // Every placement of a stamp centered on a surface point: one per UV chart it overlaps.
+  // Without a surface index the stamp lands at the hit UV only.
+  const placeStamp = useCallback((hit: SurfaceHit): Splat[] => {
+      if (!surfaceIndex) {
+          return [{ x: hit.uv.x * TEXTURE_SIZE, y: (1 - hit.uv.y) * TEXTURE_SIZE, transform: [1, 0, 0, 1], clip: null }];
       }
-      ctx.restore();
-  }, [brush]);
+      const reach = brush.size * (Math.SQRT2 / 2 + brush.positionJitter);
+      return SurfaceAPI.splat(surfaceIndex, hit.point, reach);
+  }, [surfaceIndex, brush.size, brush.positionJitter]);
   
-  const paintStroke = useCallback((uv: THREE.Vector2, pressure: number = 1.0, force: boolean = false, targetCtx?: CanvasRenderingContext2D) => {
-     let ctx: CanvasRenderingContext2D | null = null;
-     if (targetCtx) {
-        ctx = targetCtx;
+  // One stamp at `hit`, repeated at every symmetric surface point. Clone stamps read from the point
+  // at the clone offset (mirrored along with the stamp).
+  const stampAt = useCallback((targets: StampTarget[], hit: SurfaceHit, sample: StrokeSample) => {
+      const offset = brush.mode === 'clone' ? cloneOffsetRef.current : null;
+      const place = (at: SurfaceHit, transform: THREE.Matrix4 | null, copy: number) => {
+          let source: Splat[] | undefined;
+          if (offset) {
+              const shift = transform ? offset.clone().applyMatrix4(transform) : offset;
+              const target = at.point.clone().add(shift);
+              const sourceHit = castToSurface(target, surfaceNormal(target));
+              source = sourceHit ? placeStamp(sourceHit) : [];
+              if (copy === 0 && sourceHit && cloneMarkerRef.current && meshRef.current) {
+                  cloneMarkerRef.current.position.copy(meshRef.current.localToWorld(sourceHit.point.clone()));
+              }
+          }
+          drawStamp(targets, placeStamp(at), sample, source, copy);
+      };
+      place(hit, null, 0);
+      symmetryTransforms.forEach((transform, i) => {
+          const mirrored = mirrorHit(hit, transform);
+          if (mirrored) place(mirrored, transform, i + 1);
+      });
+  }, [drawStamp, placeStamp, symmetryTransforms, surfaceIndex, geometry, brush.mode]);
+
+  // Stamps are spaced along the 3D surface path (not in UV space), so a stroke crossing a UV seam
+  // continues on the other island instead of streaking across the texture.
+  const paintStroke = useCallback((hit: SurfaceHit, sample: StrokeSample = RESTING_SAMPLE, force: boolean = false, stampTargets?: StampTarget[]) => {
+     let targets: StampTarget[] = [];
+     if (stampTargets) {
+        targets = stampTargets;
      } else {
-        const layer = layers.find(l => l.id === activeLayerId);
-        if (layer) ctx = layer.ctx;
+        const layer = LayerAPI.findLayer(layers, activeLayerId);
+        if (layer) targets = getStampTargets(layer);
      }
 
-     if (!ctx) return;
+     if (targets.length === 0) return;
+     airbrushHitRef.current = hit;
 
-     const currentX = uv.x * TEXTURE_SIZE;
-     const currentY = (1 - uv.y) * TEXTURE_SIZE;
-     const currentVec = Vec2Utils.create(currentX, currentY);
-     
-     if (!lastUVRef.current || force) {
-        drawStamp(ctx, currentX, currentY, pressure);
-        lastUVRef.current = currentVec;
+     const last = lastPointRef.current;
+     if (!last || force) {
+        stampAt(targets, hit, sample);
+        lastPointRef.current = hit.point.clone();
         compositeDirtyRef.current = true;
         return;
      }
      
-     const dist = Vec2Utils.distance(lastUVRef.current, currentVec);
-     const stepSize = Math.max(1, brush.size * brush.spacing); // Ensure stepSize is at least 1px to prevent freeze
+     // Spacing is defined in texels; convert through the local texel density
+     const density = surfaceIndex ? SurfaceAPI.densityAt(surfaceIndex, last) : TEXTURE_SIZE;
+     const stepSize = Math.max(1, brush.size * brush.spacing) / density; // At least 1px to prevent freeze
+     const dist = last.distanceTo(hit.point);
      
      distanceAccumulatorRef.current += dist;
      
+     // Each step along the chord is snapped back onto the surface and takes its UV from there. Where the
+     // surface bends away from the chord, the step is split so stamps stay about `stepSize` apart on it.
+     const direction = hit.point.clone().sub(last).normalize();
      while (distanceAccumulatorRef.current >= stepSize) {
-        Vec2Utils.subtract(currentVec, lastUVRef.current!, TMP_VEC2_1);
-        Vec2Utils.normalize(TMP_VEC2_1, TMP_VEC2_1);
-        Vec2Utils.scale(TMP_VEC2_1, stepSize, TMP_VEC2_1);
-        const nextPos = Vec2Utils.create(); 
-        Vec2Utils.add(lastUVRef.current!, TMP_VEC2_1, nextPos);
-        drawStamp(ctx, nextPos.x, nextPos.y, pressure);
-        lastUVRef.current = nextPos;
+        const from = lastPointRef.current!;
+        const to = from.clone().addScaledVector(direction, stepSize);
+        const snapped = snapToSurface(to);
+        const gap = snapped ? snapped.point.distanceTo(from) : 0;
+        const pieces = Math.min(MAX_STEP_SPLITS, Math.max(1, Math.ceil(gap / stepSize)));
+        for (let k = 1; k < pieces; k++) {
+           const between = snapToSurface(from.clone().lerp(to, k / pieces));
+           if (between) stampAt(targets, between, sample);
+        }
+        if (snapped) stampAt(targets, snapped, sample);
+        lastPointRef.current = snapped ? snapped.point : to;
         distanceAccumulatorRef.current -= stepSize;
      }
      compositeDirtyRef.current = true;
-  }, [activeLayerId, layers, drawStamp, brush.spacing, brush.size]);
+  }, [activeLayerId, layers, getStampTargets, stampAt, surfaceIndex, geometry, brush.spacing, brush.size]);
+
+  // ------------------------------------------------------------------
+  // PROJECTION PAINTING
+  // ------------------------------------------------------------------
+  // Pointer position in drawing-buffer pixels (top-left origin)
+  const toScreen = (pointer: THREE.Vector2) => {
+      const size = gl.getDrawingBufferSize(new THREE.Vector2());
+      return { x: (pointer.x + 1) / 2 * size.x, y: (1 - pointer.y) / 2 * size.y };
+  };
+
+  const beginProjectionStroke = () => {
+      const size = gl.getDrawingBufferSize(new THREE.Vector2());
+      if (!strokeCanvasRef.current) strokeCanvasRef.current = document.createElement('canvas');
+      const canvas = strokeCanvasRef.current;
+      if (canvas.width !== size.x || canvas.height !== size.y) { canvas.width = size.x; canvas.height = size.y; }
+      canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+      projectionBoundsRef.current = null;
+      lastScreenRef.current = null;
+      distanceAccumulatorRef.current = 0;
+  };
+
+  // One stamp into the screen-space stroke. Size is in CSS pixels, so strokes keep their width on screen.
+  const drawScreenStamp = (ctx: CanvasRenderingContext2D, x: number, y: number, sample: StrokeSample, color: string, textured: boolean) => {
+      const dyn = DynamicsAPI.resolve(brush, sample);
+      const scale = gl.getPixelRatio();
+      const dynamicSize = Math.max(0.5, dyn.size * scale);
+      const radius = dynamicSize / 2;
+      const stampColor = textured && brush.mode === 'paint'
+          ? DynamicsAPI.stampColor(brush, color, sample, brush.colorRandomize === 'stamp' ? DynamicsAPI.colorRandoms() : strokeColorRef.current, dyn.hueShift)
+          : DynamicsAPI.shiftHue(color, dyn.hueShift);
+
+      let posX = x;
+      let posY = y;
+      if (dyn.jitter > 0) {
+         const jitterAmount = brush.size * scale * dyn.jitter;
+         posX += (Math.random() - 0.5) * jitterAmount;
+         posY += (Math.random() - 0.5) * jitterAmount;
+      }
+      let angle = (dyn.rotation * Math.PI) / 180;
+      if (brush.rotationJitter > 0) {
+         angle += (Math.random() - 0.5) * 2 * Math.PI * brush.rotationJitter;
+      }
+
+      // Rotated, the stamp stays inside its circumscribed circle
+      const reach = radius * Math.SQRT2 + 1;
+      const bounds = projectionBoundsRef.current;
+      projectionBoundsRef.current = {
+          minX: Math.min(bounds ? bounds.minX : Infinity, posX - reach), minY: Math.min(bounds ? bounds.minY : Infinity, posY - reach),
+          maxX: Math.max(bounds ? bounds.maxX : -Infinity, posX + reach), maxY: Math.max(bounds ? bounds.maxY : -Infinity, posY + reach)
+      };
+
+      ctx.save();
+      ctx.translate(posX, posY);
+      ctx.rotate(angle);
+      ctx.globalAlpha = dyn.opacity * dyn.flow;
+      const tip = prepareTip(stampColor, textured, dynamicSize, dyn.hardness);
+      if (tip) {
+          ctx.drawImage(tip, 0, 0, tip.width, tip.height, -radius, -radius, dynamicSize, dynamicSize);
+      } else {
+          TipAPI.drawRound(ctx, radius, brush.mode === 'paint' ? stampColor : '#ffffff', dyn.hardness);
+      }
+      ctx.restore();
+  };
+
+  // The screen stroke carries the colors of the textured target (base color); other targets are
+  // recolored from its coverage when baked
+  const projectStroke = (screen: { x: number; y: number }, sample: StrokeSample, force: boolean = false) => {
+      const canvas = strokeCanvasRef.current;
+      const layer = LayerAPI.findLayer(layers, activeLayerId);
+      if (!canvas || !layer) return;
+      const targets = getStampTargets(layer);
+      if (targets.length === 0) return;
+      const textured = targets.find(t => t.textured);
+      const color = textured ? textured.color : '#ffffff';
+      const ctx = canvas.getContext('2d')!;
+      airbrushScreenRef.current = screen;
+
+      const last = lastScreenRef.current;
+      if (!last || force) {
+          drawScreenStamp(ctx, screen.x, screen.y, sample, color, !!textured);
+          lastScreenRef.current = screen;
+      } else {
+          const dist = Math.hypot(screen.x - last.x, screen.y - last.y);
+          const stepSize = Math.max(1, brush.size * gl.getPixelRatio() * brush.spacing);
+          distanceAccumulatorRef.current += dist;
+          const dirX = dist > 0 ? (screen.x - last.x) / dist : 0;
+          const dirY = dist > 0 ? (screen.y - last.y) / dist : 0;
+          while (distanceAccumulatorRef.current >= stepSize) {
+              const prev = lastScreenRef.current!;
+              const next = { x: prev.x + dirX * stepSize, y: prev.y + dirY * stepSize };
+              drawScreenStamp(ctx, next.x, next.y, sample, color, !!textured);
+              lastScreenRef.current = next;
+              distanceAccumulatorRef.current -= stepSize;
+          }
+      }
+      projectionPendingRef.current = true;
+  };
+
+  // Bake the stamps collected since the last flush onto the active layer and clear the stroke canvas
+  const flushProjection = () => {
+      projectionPendingRef.current = false;
+      projectionElapsedRef.current = 0;
+      const screenBounds = projectionBoundsRef.current;
+      projectionBoundsRef.current = null;
+      const strokeCanvas = strokeCanvasRef.current;
+      const layer = LayerAPI.findLayer(layers, activeLayerId);
+      if (!strokeCanvas || !layer || !projectionRef.current || !screenBounds) return;
+      const patch = projectionRef.current.bake(strokeCanvas, stencil.cullBackfaces, screenBounds);
+      strokeCanvas.getContext('2d')!.clearRect(0, 0, strokeCanvas.width, strokeCanvas.height);
+      if (!patch) return;
+      const { x, y, image } = patch;
+      const w = image.width, h = image.height;
+      const row = TEXTURE_SIZE - y - h; // Top of the patch in the bottom-up projected canvas
+
+      if (!projectedCanvasRef.current) {
+          projectedCanvasRef.current = document.createElement('canvas');
+          projectedCanvasRef.current.width = TEXTURE_SIZE;
+          projectedCanvasRef.current.height = TEXTURE_SIZE;
+      }
+      const projected = projectedCanvasRef.current;
+      projected.getContext('2d')!.putImageData(image, x, row);
+
+      getStampTargets(layer).forEach(({ ctx, color, lockAlpha, textured }) => {
+          // Erasing would change coverage, so a locked layer ignores it
+          if (lockAlpha && brush.mode === 'erase') return;
+          history.markDirtyRect(ctx.canvas, x, y, x + w - 1, y + h - 1);
+
+          let source = projected;
+          if (brush.mode === 'paint' && !textured) {
+              if (!projectedTintRef.current) {
+                  projectedTintRef.current = document.createElement('canvas');
+                  projectedTintRef.current.width = TEXTURE_SIZE;
+                  projectedTintRef.current.height = TEXTURE_SIZE;
+              }
+              const tCtx = projectedTintRef.current.getContext('2d')!;
+              tCtx.globalCompositeOperation = 'copy';
+              tCtx.fillStyle = color;
+              tCtx.fillRect(x, row, w, h);
+              tCtx.globalCompositeOperation = 'destination-in';
+              tCtx.drawImage(projected, x, row, w, h, x, row, w, h);
+              tCtx.globalCompositeOperation = 'source-over';
+              source = projectedTintRef.current;
+          }
+
+          ctx.save();
+          if (brush.mode === 'erase') { ctx.globalCompositeOperation = 'destination-out'; } else { ctx.globalCompositeOperation = lockAlpha ? 'source-atop' : 'source-over'; }
+          ctx.scale(1, -1);
+          ctx.drawImage(source, x, row, w, h, x, row - TEXTURE_SIZE, w, h);
+          ctx.restore();
+      });
+      compositeDirtyRef.current = true;
+  };
+
+  // Surface hit under a screen position (drawing-buffer pixels), for stabilized positions that
+  // no longer match the pointer event's own intersection
+  const raycastScreen = (screen: { x: number; y: number }): SurfaceHit | null => {
+      const mesh = meshRef.current;
+      if (!mesh) return null;
+      const size = gl.getDrawingBufferSize(new THREE.Vector2());
+      raycaster.setFromCamera(new THREE.Vector2(screen.x / size.x * 2 - 1, 1 - screen.y / size.y * 2), camera);
+      const hit = raycaster.intersectObject(mesh, false)[0];
+      return hit && hit.uv ? toSurfaceHit(hit.point, hit.uv) : null;
+  };
+
+  const paintAtScreen = (screen: { x: number; y: number }, sample: StrokeSample) => {
+      if (projecting) {
+          projectStroke(screen, sample);
+      } else {
+          const hit = raycastScreen(screen);
+          if (hit) paintStroke(hit, sample);
+      }
+  };
+
+  // Airbrush: stamps at `airbrushRate` per second where the pen is, on top of the spaced stamps of its
+  // movement, so paint builds up while it rests. Each stamp lays down opacity x flow of the latest pen sample.
+  const emitAirbrush = (delta: number) => {
+      airbrushDueRef.current += Math.min(delta, MAX_AIRBRUSH_DELTA) * Math.max(1, brush.airbrushRate);
+      const count = Math.floor(airbrushDueRef.current);
+      airbrushDueRef.current -= count;
+      for (let i = 0; i < count; i++) {
+          if (projecting) {
+              if (airbrushScreenRef.current) projectStroke(airbrushScreenRef.current, lastSampleRef.current, true);
+          } else if (airbrushHitRef.current) {
+              paintStroke(airbrushHitRef.current, lastSampleRef.current, true);
+          }
+      }
+  };
+
+  // Fix the clone offset on the first stroke after picking a source (later strokes stay aligned to it)
+  // and snapshot the targets, so the stroke never clones its own output. False without a source.
+  const beginCloneStroke = (start: THREE.Vector3): boolean => {
+      const mesh = meshRef.current;
+      const layer = LayerAPI.findLayer(layers, activeLayerId);
+      if (!mesh || !layer || !cloneSourceRef.current) return false;
+      if (!cloneOffsetRef.current) {
+          cloneOffsetRef.current = cloneSourceRef.current.clone().sub(mesh.worldToLocal(start.clone()));
+      }
+
+      const pool = cloneSnapshotsRef.current;
+      const snapshots = new Map<HTMLCanvasElement, HTMLCanvasElement>();
+      const spare = [...pool.values()];
+      getStampTargets(layer).forEach(({ ctx }) => {
+          const snapshot = spare.pop() ?? document.createElement('canvas');
+          snapshot.width = ctx.canvas.width;
+          snapshot.height = ctx.canvas.height;
+          snapshot.getContext('2d')!.drawImage(ctx.canvas, 0, 0);
+          snapshots.set(ctx.canvas, snapshot);
+      });
+      cloneSnapshotsRef.current = snapshots;
+      return true;
+  };
 
   const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
      if (isAltPressed) return;
@@ -1028,26 +2177,44 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
      if (brush.mode === 'curve') {
         // Curve Logic: If we hit handle, it's handled by CurveOverlay via stopPropagation. 
         // If we reach here, we are clicking the mesh -> Add point.
-        if (e.shiftKey && e.point) {
-            // Normalize to surface (Radius 2)
-            const p = e.point.clone().normalize().multiplyScalar(2.0);
-            addCurvePoint(p);
+        if (e.shiftKey && e.point && e.uv) {
+            addCurvePoint(toCurvePoint(toSurfaceHit(e.point, e.uv)));
         }
         return;
      }
 
+     if (brush.mode === 'clone' && (e.ctrlKey || e.metaKey) && e.point) {
+        // Pick the clone source; the offset is fixed by the next stroke
+        cloneSourceRef.current = meshRef.current ? meshRef.current.worldToLocal(e.point.clone()) : e.point.clone();
+        cloneOffsetRef.current = null;
+        cloneMarkerRef.current?.position.copy(e.point);
+        setHasCloneSource(true);
+        return;
+     }
+
      if (!isInteractingWithStencil && !isStencilEditMode && e.uv) {
-        eventBus.emit(Events.PAINT_START, { layerId: activeLayerId, tool: brush.mode, uv: e.uv });
+        if (brush.mode === 'clone' && !beginCloneStroke(e.point)) return;
+        smudgePickupRef.current = [];
+        eventBus.emit(Events.PAINT_START, { layerId: activeLayerId, target: paintTarget, tool: brush.mode, channels: brush.channels, uv: e.uv });
         isPaintingRef.current = true;
-        lastUVRef.current = null; 
+        lastPointRef.current = null; 
         distanceAccumulatorRef.current = 0;
+        airbrushHitRef.current = null;
+        airbrushScreenRef.current = null;
+        airbrushDueRef.current = 0;
         
-        // Extract pressure or default to 1.0
-        let p = e.nativeEvent.pressure;
-        if ((!p || p === 0) && e.nativeEvent.pointerType === 'mouse') p = 1.0;
-        if (p === 0) p = 1.0; // Fallback for devices reporting 0 on start
-
-        paintStroke(e.uv, p);
+        strokeTrackerRef.current = DynamicsAPI.beginStroke(e.nativeEvent);
+        strokeColorRef.current = DynamicsAPI.colorRandoms();
+        const p = DynamicsAPI.sample(strokeTrackerRef.current, e.nativeEvent, brush.usePressure);
+        lastSampleRef.current = p;
+        stabilizerRef.current = StabilizerAPI.begin(brush, toScreen(e.pointer), gl.getPixelRatio());
+
+        if (projecting) {
+            beginProjectionStroke();
+            projectStroke(toScreen(e.pointer), p);
+        } else {
+            paintStroke(toSurfaceHit(e.point, e.uv), p);
+        }
         (e.nativeEvent.target as HTMLElement).setPointerCapture(e.pointerId);
      }
   };
@@ -1057,32 +2224,52 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
      if (gizmoDragging) return;
 
      if (brush.mode === 'curve') {
-         if (draggingCurveIdx !== null && e.point) {
-             const p = e.point.clone().normalize().multiplyScalar(2.0);
-             updateCurvePoint(draggingCurveIdx, p);
+         if (draggingCurveIdx !== null && e.point && e.uv) {
+             updateCurvePoint(draggingCurveIdx, toCurvePoint(toSurfaceHit(e.point, e.uv)));
          }
          return;
      }
 
-     if (isPaintingRef.current && !isInteractingWithStencil && !isStencilEditMode && e.uv) {
-        let p = e.nativeEvent.pressure;
-        if ((!p || p === 0) && e.nativeEvent.pointerType === 'mouse') p = 1.0;
-        
-        paintStroke(e.uv, p);
+     if (isPaintingRef.current && !isInteractingWithStencil && !isStencilEditMode) {
+        if (!strokeTrackerRef.current) strokeTrackerRef.current = DynamicsAPI.beginStroke(e.nativeEvent);
+        const p = DynamicsAPI.sample(strokeTrackerRef.current, e.nativeEvent, brush.usePressure);
+        lastSampleRef.current = p;
+
+        // Smoothed positions are re-cast onto the mesh; unsmoothed strokes use the event's hit directly
+        const stabilizer = stabilizerRef.current;
+        if (stabilizer && stabilizer.mode !== 'none') {
+            StabilizerAPI.push(stabilizer, toScreen(e.pointer)).forEach(screen => paintAtScreen(screen, p));
+        } else if (projecting) {
+            projectStroke(toScreen(e.pointer), p);
+        } else if (e.uv) {
+            paintStroke(toSurfaceHit(e.point, e.uv), p);
+        }
      }
   };
 
   const handlePointerUp = (e: ThreeEvent<PointerEvent>) => {
      if (draggingCurveIdx !== null) {
          setDraggingCurveIdx(null);
+         const before = curveDragStartRef.current;
+         curveDragStartRef.current = null;
+         if (before && curvePoints && setCurvePoints && before !== curvePoints) {
+             history.pushState('Move Curve Point', before, curvePoints, setCurvePoints);
+         }
          return;
      }
 
      if (isPaintingRef.current) {
+        if (stabilizerRef.current) {
+            StabilizerAPI.finish(stabilizerRef.current).forEach(screen => paintAtScreen(screen, lastSampleRef.current));
+        }
+        if (projectionPendingRef.current) flushProjection();
         eventBus.emit(Events.PAINT_END, { layerId: activeLayerId });
      }
      isPaintingRef.current = false;
-     lastUVRef.current = null;
+     lastPointRef.current = null;
+     lastScreenRef.current = null;
+     stabilizerRef.current = null;
+     strokeTrackerRef.current = null;
      try { (e.nativeEvent.target as HTMLElement).releasePointerCapture(e.pointerId); } catch(err){}
   };
 
@@ -1095,16 +2282,43 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
         onPointerMove={handlePointerMove}
         onPointerDown={handlePointerDown}
         onPointerUp={handlePointerUp}
+        geometry={geometry}
       >
-        <sphereGeometry args={[2, 64, 64]} /> 
-        <meshStandardMaterial map={compositeTexture} roughness={0.5} metalness={0.1} transparent={true} side={THREE.DoubleSide} />
+        {/* Scalar maps multiply the factors, so the factors stay at 1 and the neutral values live in the maps.
+            Height is bound as a bump map: three derives the shading normals from it. */}
+        <meshStandardMaterial
+          map={compositeTexture}
+          roughnessMap={channelTextures.roughness.texture}
+          roughness={1}
+          metalnessMap={channelTextures.metallic.texture}
+          metalness={1}
+          bumpMap={channelTextures.height.texture}
+          bumpScale={2}
+          emissiveMap={channelTextures.emissive.texture}
+          emissive="#ffffff"
+          transparent={true}
+          side={THREE.DoubleSide}
+        />
       </mesh>
 
+      <ProjectionPainter ref={projectionRef} meshGeometry={geometry} />
+
+      {/* Clone source marker */}
+      <mesh ref={cloneMarkerRef} visible={brush.mode === 'clone' && hasCloneSource} raycast={() => null} renderOrder={10}>
+          <sphereGeometry args={[0.03, 12, 12]} />
+          <meshBasicMaterial color="#f59e0b" depthTest={false} transparent />
+      </mesh>
+
+      {symmetry.showPlanes && SymmetryAPI.isActive(symmetry) && (
+          <SymmetryGuides symmetry={symmetry} geometry={geometry} />
+      )}
+
       {/* Curve Overlay */}
       {brush.mode === 'curve' && curvePoints && (
           <BezierCurve 
             points={curvePoints} 
-            onPointDown={(idx) => setDraggingCurveIdx(idx)} 
+            lift={curveLift}
+            onPointDown={(idx) => { curveDragStartRef.current = curvePoints; setDraggingCurveIdx(idx); }} 
           />
       )}
 
@@ -1120,13 +2334,23 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
               tool={stencil.tool}
               rowCuts={stencil.rowCuts}
               colCuts={stencil.colCuts}
+              gridPoints={stencil.gridPoints}
+              interpolation={stencil.interpolation}
+              proportionalRadius={stencil.proportional ? stencil.proportionalRadius : 0}
+              snapToCuts={stencil.snapToCuts}
+              transform={stencil.transform}
               onDragChange={setGizmoDragging}
               onLutUpdate={handleLutUpdate}
               onAddLoop={handleAddLoop}
+              onRemoveLoop={handleRemoveLoop}
+              onGridEdit={handleGridEdit}
+              onGridChange={handleGridChange}
+              onTransformChange={handleTransformChange}
             />
             
             <ProjectionPreview 
                stencil={stencil}
+               geometry={geometry}
                stencilMeshRef={stencilMeshRef}
                lutTexture={lutTexture}
                lutBounds={lutBounds}
@@ -1135,7 +2359,7 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
              <ProjectionBaker 
                ref={bakerRef}
                stencil={stencil}
-               meshGeometry={meshRef.current?.geometry}
+               meshGeometry={geometry}
                stencilObjectRef={stencilMeshRef}
                lutTexture={lutTexture}
                lutBounds={lutBounds}
@@ -1146,6 +2370,41 @@ const PaintableMesh: React.FC<SceneProps & { setStencil?: (s: any) => void; isAl
   );
 };
 
+// ------------------------------------------------------------------
+// CAMERA SYNC (Reports orbit pose, applies CMD_SET_CAMERA)
+// ------------------------------------------------------------------
+const CameraSync = () => {
+  const { camera, controls } = useThree();
+
+  useEffect(() => {
+    const orbit = controls as unknown as (THREE.EventDispatcher<any> & { target: THREE.Vector3; update: () => void }) | null;
+    if (!orbit) return;
+
+    const handleChange = () => {
+      const pose: CameraPose = {
+        position: { x: camera.position.x, y: camera.position.y, z: camera.position.z },
+        target: { x: orbit.target.x, y: orbit.target.y, z: orbit.target.z }
+      };
+      eventBus.emit(Events.CAMERA_CHANGED, pose);
+    };
+
+    const handleSetCamera = (pose: CameraPose) => {
+      camera.position.set(pose.position.x, pose.position.y, pose.position.z);
+      orbit.target.set(pose.target.x, pose.target.y, pose.target.z);
+      orbit.update();
+    };
+
+    orbit.addEventListener('change', handleChange);
+    const unsubSet = eventBus.on(Events.CMD_SET_CAMERA, handleSetCamera);
+    return () => {
+      orbit.removeEventListener('change', handleChange);
+      unsubSet();
+    };
+  }, [camera, controls]);
+
+  return null;
+};
+
 const Scene: React.FC<SceneProps> = (props) => {
   const { isAltPressed, orbitProps } = useMayaControls();
   const { axisWidget } = props;
@@ -1161,6 +2420,7 @@ const Scene: React.FC<SceneProps> = (props) => {
       <Environment preset="city" />
       
       <OrbitControls {...orbitProps} />
+      <CameraSync />
       
       {axisWidget.visible && (
         <GizmoHelper alignment={axisWidget.alignment} margin={axisWidget.margin}>
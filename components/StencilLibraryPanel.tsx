@@ -0,0 +1,87 @@
+import React from 'react';
+import { StencilSettings, StencilDocument } from '../types';
+import { IconTrash, IconPlus } from './Icons';
+import { StencilAPI, STENCIL_RIG_EXTENSION } from '../services/stencilService';
+
+interface StencilLibraryPanelProps {
+  stencil: StencilSettings;
+  setStencil: (s: StencilSettings) => void;
+  stencils: StencilDocument[];
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onLoadRig: (file: File) => void;
+}
+
+// The project's stencils: switch, add, rename and delete them, and save the edited stencil's rig
+// (lattice and placement) to reuse it with another image or project.
+export const StencilLibraryPanel: React.FC<StencilLibraryPanelProps> = ({ stencil, setStencil, stencils, onSelect, onAdd, onRemove, onLoadRig }) => {
+  const handleLoadRig = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onLoadRig(file);
+  };
+
+  return (
+    <div className="space-y-2">
+       <div className="flex justify-between items-center text-xs text-neutral-500 font-semibold uppercase tracking-wider">
+          <span>Stencils</span>
+          <button onClick={onAdd} className="text-blue-400 hover:text-blue-300" title="New stencil">
+             <IconPlus className="w-4 h-4" />
+          </button>
+       </div>
+
+       <div className="space-y-1 max-h-40 overflow-y-auto">
+          {stencils.map(doc => (
+             <div
+               key={doc.id}
+               onClick={() => onSelect(doc.id)}
+               className={`group flex items-center gap-2 p-1 rounded border cursor-pointer transition-colors ${doc.id === stencil.id ? 'bg-neutral-800 border-green-600' : 'bg-neutral-900 border-neutral-800 hover:border-neutral-600'}`}
+             >
+                <div className="w-8 h-8 shrink-0 bg-neutral-800 rounded overflow-hidden">
+                   {doc.image && <img src={doc.image} alt="stencil" className="w-full h-full object-cover" />}
+                </div>
+                {doc.id === stencil.id ? (
+                   <input
+                     type="text"
+                     value={stencil.name}
+                     onChange={(e) => setStencil({ ...stencil, name: e.target.value })}
+                     className="flex-1 min-w-0 bg-neutral-900 border border-neutral-700 rounded text-xs text-neutral-200 px-2 py-1"
+                     title="Name"
+                   />
+                ) : (
+                   <span className="flex-1 min-w-0 text-xs text-neutral-400 truncate">{doc.name}</span>
+                )}
+                <span className="text-[9px] text-neutral-500 shrink-0">{doc.rowCuts.length}x{doc.colCuts.length}</span>
+                {stencils.length > 1 && (
+                   <button
+                     onClick={(e) => { e.stopPropagation(); onRemove(doc.id); }}
+                     className="p-1 text-neutral-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                     title="Delete stencil"
+                   >
+                      <IconTrash className="w-3 h-3" />
+                   </button>
+                )}
+             </div>
+          ))}
+       </div>
+
+       <div className="flex gap-1">
+          <button
+            onClick={() => StencilAPI.exportRig(stencil)}
+            className="flex-1 py-1 text-[10px] rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-200"
+            title="Save the lattice and placement of this stencil"
+          >
+            Save Rig
+          </button>
+          <label
+            className="flex-1 py-1 text-[10px] text-center rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-200 cursor-pointer"
+            title="Apply a saved rig to this stencil (its image is kept)"
+          >
+            Load Rig
+            <input type="file" className="hidden" accept={`${STENCIL_RIG_EXTENSION},application/json`} onChange={handleLoadRig} />
+          </label>
+       </div>
+    </div>
+  );
+};
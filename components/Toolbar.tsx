@@ -1,13 +1,30 @@
 
-import React, { useState } from 'react';
-import { BrushSettings, BrushPreset, StencilSettings, AxisWidgetSettings } from '../types';
-import { PRESET_COLORS, DEFAULT_PRESETS, TIP_LIBRARY } from '../constants';
-import { IconBrush, IconAirbrush, IconSparkles, IconTrash, IconPlus, IconGrid, IconTarget, IconEraser, IconBucket, IconEye } from './Icons';
+import React, { useMemo, useState } from 'react';
+import { BrushSettings, BrushPreset, StencilSettings, StencilDocument, AxisWidgetSettings, SymmetrySettings, Axis, StabilizerMode, DynamicsInput, DynamicsTarget, DynamicsMapping, ExportSettings, MaterialChannel, LibraryTip, ProceduralTip, TipShape } from '../types';
+import { PRESET_COLORS, TIP_LIBRARY, MATERIAL_CHANNELS, DYNAMICS_INPUTS, DYNAMICS_TARGETS, DEFAULT_TIP, TIP_SHAPES } from '../constants';
+import { CurveEditor } from './CurveEditor';
+import { PresetPanel } from './PresetPanel';
+import { StencilLibraryPanel } from './StencilLibraryPanel';
+import { IconBrush, IconAirbrush, IconSparkles, IconTrash, IconPlus, IconGrid, IconTarget, IconEraser, IconBucket, IconEye, IconSmudge, IconDroplet, IconStamp } from './Icons';
 import { BrushAPI } from '../services/brushService';
+import { TipAPI } from '../services/tipService';
+import { DynamicsAPI, CURVE_PRESETS } from '../services/dynamicsService';
 import { eventBus, Events } from '../services/eventBus';
+import { MESH_FORMATS } from '../services/meshService';
+import { PROJECT_EXTENSION } from '../services/projectService';
+import { BRUSH_FILE_EXTENSIONS } from '../services/brushImportService';
+import { EXPORT_RESOLUTIONS, DEFAULT_EXPORT_SETTINGS } from '../services/exportService';
 
 const genId = () => Math.random().toString(36).substr(2, 9);
 
+// Tools that rework the paint already on the surface
+const SAMPLING_TOOL_BUTTONS: { mode: BrushSettings['mode']; label: string; Icon: React.FC<{ className?: string }> }[] = [
+  { mode: 'smudge', label: 'Smudge', Icon: IconSmudge },
+  { mode: 'blur', label: 'Blur', Icon: IconDroplet },
+  { mode: 'sharpen', label: 'Sharpen', Icon: IconSparkles },
+  { mode: 'clone', label: 'Clone', Icon: IconStamp }
+];
+
 interface ToolbarProps {
   brush: BrushSettings;
   setBrush: (b: BrushSettings) => void;
@@ -15,17 +32,37 @@ interface ToolbarProps {
   setStencil: (s: StencilSettings) => void;
   axisWidget: AxisWidgetSettings;
   setAxisWidget: (a: AxisWidgetSettings) => void;
+  symmetry: SymmetrySettings;
+  setSymmetry: (s: SymmetrySettings) => void;
   onFillLayer: () => void;
   curvePointsCount: number;
+  meshName: string;
+  onImportMesh: (file: File) => void;
+  onResetMesh: () => void;
+  presets: BrushPreset[];
+  setPresets: (p: BrushPreset[]) => void;
+  tipLibrary: LibraryTip[];
+  onImportBrushes: (files: File[]) => Promise<void>;
+  onRemoveTip: (id: string) => void;
+  onSaveProject: () => void;
+  onOpenProject: (file: File) => void;
+  onExportTextures: (settings: ExportSettings) => Promise<void>;
+  stencils: StencilDocument[];
+  onSelectStencil: (id: string) => void;
+  onAddStencil: () => void;
+  onRemoveStencil: (id: string) => void;
+  onLoadStencilRig: (file: File) => void;
 }
 
-const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil, axisWidget, setAxisWidget, onFillLayer, curvePointsCount }) => {
+const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil, axisWidget, setAxisWidget, symmetry, setSymmetry, onFillLayer, curvePointsCount, meshName, onImportMesh, onResetMesh, presets, setPresets, tipLibrary, onImportBrushes, onRemoveTip, onSaveProject, onOpenProject, onExportTextures, stencils, onSelectStencil, onAddStencil, onRemoveStencil, onLoadStencilRig }) => {
   const [activeTab, setActiveTab] = useState<'brush' | 'stencil' | 'view'>('brush');
-  const [presets, setPresets] = useState<BrushPreset[]>(DEFAULT_PRESETS);
   const [isGeneratingMask, setIsGeneratingMask] = useState(false);
   const [showMaskModal, setShowMaskModal] = useState(false);
   const [showLibraryModal, setShowLibraryModal] = useState(false);
   const [maskPrompt, setMaskPrompt] = useState('');
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [expandedDynamics, setExpandedDynamics] = useState<string | null>(null);
 
   const handleChange = (key: keyof BrushSettings, value: any) => {
     setBrush({ ...brush, [key]: value });
@@ -35,25 +72,46 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
     setStencil({ ...stencil, [key]: value });
   };
 
-  const handleApplyPreset = (preset: BrushPreset) => {
-    setBrush({ ...brush, ...preset.settings });
+  // Projection paint bakes a screen-space stroke, which has no mirrored copies; sampling tools still paint on the surface
+  const symmetryUnavailable = brush.projectionPaint && !SAMPLING_TOOL_BUTTONS.some(t => t.mode === brush.mode);
+
+  const handleSymmetryChange = (key: keyof SymmetrySettings, value: any) => {
+    setSymmetry({ ...symmetry, [key]: value });
   };
 
-  const handleSavePreset = () => {
-    const name = prompt("Enter preset name:", "My Brush");
-    if (name) {
-      const newPreset: BrushPreset = {
-        id: genId(),
-        name,
-        settings: { ...brush } // Save current state
-      };
-      setPresets([...presets, newPreset]);
-    }
+  const handleTipChange = (key: keyof ProceduralTip, value: any) => {
+    setBrush({ ...brush, tip: { ...brush.tip, [key]: value } });
+  };
+
+  // Preview of the procedural tip at the current hardness
+  const tipPreview = useMemo(() => TipAPI.mask(brush.tip, brush.hardness, 96).toDataURL(), [brush.tip, brush.hardness]);
+
+  const handleAddDynamics = () => {
+    const mapping: DynamicsMapping = {
+      id: genId(),
+      input: 'pressure',
+      target: 'size',
+      curve: DynamicsAPI.curveFromEasing('linear'),
+      amount: 1
+    };
+    handleChange('dynamics', [...brush.dynamics, mapping]);
+    setExpandedDynamics(mapping.id);
   };
 
-  const handleDeletePreset = (e: React.MouseEvent, id: string) => {
-    e.stopPropagation();
-    setPresets(presets.filter(p => p.id !== id));
+  const handleDynamicsChange = (id: string, changes: Partial<DynamicsMapping>) => {
+    handleChange('dynamics', brush.dynamics.map(m => (m.id === id ? { ...m, ...changes } : m)));
+  };
+
+  const handleRemoveDynamics = (id: string) => {
+    handleChange('dynamics', brush.dynamics.filter(m => m.id !== id));
+  };
+
+  // Keep the selection in UI order so every stroke visits channels the same way
+  const handleToggleChannel = (channel: MaterialChannel) => {
+    const selected = brush.channels.includes(channel)
+      ? brush.channels.filter(c => c !== channel)
+      : [...brush.channels, channel];
+    handleChange('channels', MATERIAL_CHANNELS.map(c => c.value).filter(c => selected.includes(c)));
   };
 
   const handleGenerateMask = async () => {
@@ -92,6 +150,12 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
     }
   };
   
+  const handleImportBrushFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) onImportBrushes(files);
+  };
+
   const handleUploadStencil = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -114,6 +178,24 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
     }
   };
 
+  const handleUploadMesh = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportMesh(file);
+    e.target.value = ''; // Allow re-importing the same file
+  };
+
+  const handleOpenProject = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onOpenProject(file);
+    e.target.value = '';
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    await onExportTextures(exportSettings);
+    setIsExporting(false);
+  };
+
   const handleProjectStencil = () => {
       eventBus.emit(Events.CMD_PROJECT_STENCIL);
   };
@@ -121,48 +203,11 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
   const renderBrushTab = () => (
     <>
       {/* Presets Section */}
-      <div className="space-y-2">
-         <div className="flex justify-between items-center text-xs text-neutral-500 font-semibold uppercase tracking-wider">
-            <span>Library</span>
-            <button onClick={handleSavePreset} className="text-blue-400 hover:text-blue-300" title="Save current brush as preset">
-               <IconPlus className="w-4 h-4" />
-            </button>
-         </div>
-         <div className="grid grid-cols-3 gap-2">
-            {presets.map(preset => (
-               <div key={preset.id} className="relative group">
-                  <button
-                    onClick={() => handleApplyPreset(preset)}
-                    className="w-full aspect-square bg-neutral-800 border border-neutral-700 rounded-lg hover:border-blue-500 hover:bg-neutral-700 flex flex-col items-center justify-center p-1 transition-all overflow-hidden"
-                    title={preset.name}
-                  >
-                    {preset.settings.maskImage ? (
-                      <div className="w-8 h-8 mb-1 opacity-80 invert">
-                         <img src={preset.settings.maskImage} alt="tip" className="w-full h-full object-contain" />
-                      </div>
-                    ) : (
-                      preset.settings.isAirbrush ? 
-                        <IconAirbrush className="w-6 h-6 text-blue-400 mb-1" /> : 
-                        <IconBrush className="w-6 h-6 text-neutral-400 mb-1" />
-                    )}
-                    <span className="text-[9px] truncate w-full text-center text-neutral-400 leading-tight">{preset.name}</span>
-                  </button>
-                  {!DEFAULT_PRESETS.some(dp => dp.id === preset.id) && (
-                    <button 
-                      onClick={(e) => handleDeletePreset(e, preset.id)}
-                      className="absolute -top-1 -right-1 bg-red-900 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity z-10"
-                    >
-                      <IconTrash className="w-2 h-2" />
-                    </button>
-                  )}
-               </div>
-            ))}
-         </div>
-      </div>
+      <PresetPanel brush={brush} setBrush={setBrush} presets={presets} setPresets={setPresets} />
 
       <hr className="border-neutral-800" />
 
-      {/* TOOLS: Paint, Erase, Curve, Fill */}
+      {/* TOOLS: Paint, Erase, Sampling, Curve, Fill */}
       <div className="space-y-2">
         <label className="text-xs uppercase tracking-wider text-neutral-500 font-semibold">Tools</label>
         <div className="flex bg-neutral-800 p-1 rounded-lg border border-neutral-700 gap-1 flex-wrap">
@@ -180,6 +225,16 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
             <IconEraser className="w-4 h-4" />
             Eraser
           </button>
+          {SAMPLING_TOOL_BUTTONS.map(({ mode, label, Icon }) => (
+            <button
+              key={mode}
+              onClick={() => handleChange('mode', mode)}
+              className={`flex-1 min-w-[3rem] flex flex-col items-center justify-center gap-1 py-2 rounded text-[10px] font-medium transition-colors ${brush.mode === mode ? 'bg-amber-600 text-white shadow-sm' : 'text-neutral-400 hover:text-neutral-200 hover:bg-neutral-700'}`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
           <button
             onClick={() => handleChange('mode', 'curve')}
             className={`flex-1 min-w-[3rem] flex flex-col items-center justify-center gap-1 py-2 rounded text-[10px] font-medium transition-colors ${brush.mode === 'curve' ? 'bg-purple-600 text-white shadow-sm' : 'text-neutral-400 hover:text-neutral-200 hover:bg-neutral-700'}`}
@@ -197,6 +252,19 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
         </div>
       </div>
 
+      {/* Sampling tool notes */}
+      {SAMPLING_TOOL_BUTTONS.some(t => t.mode === brush.mode) && (
+        <div className="space-y-1 bg-neutral-800 p-2 rounded border border-neutral-700 border-l-4 border-l-amber-500 text-[10px] text-neutral-400">
+          {brush.mode === 'smudge' && <p>Drags the paint under the brush along the stroke. Flow sets how quickly the brush picks up new paint.</p>}
+          {brush.mode === 'blur' && <p>Softens the paint under the brush. Strength sets the blur radius.</p>}
+          {brush.mode === 'sharpen' && <p>Increases local contrast under the brush. Strength sets the amount.</p>}
+          {brush.mode === 'clone' && (
+            <p><span className="font-bold text-amber-400">Ctrl+Click</span> the surface to set the clone source. The offset from the first stroke is kept until a new source is picked.</p>
+          )}
+          {brush.projectionPaint && <p className="text-amber-400">These tools always paint on the surface, not through projection.</p>}
+        </div>
+      )}
+
       {/* Curve Specific Controls */}
       {brush.mode === 'curve' && (
         <div className="space-y-2 bg-neutral-800 p-2 rounded border border-neutral-700 border-l-4 border-l-purple-500">
@@ -274,6 +342,160 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
               Pressure {brush.usePressure ? 'ON' : 'OFF'}
             </button>
         </div>
+        {brush.isAirbrush && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-neutral-400">
+              <span title="Stamps per second while the pen is held; flow sets how much each one lays down">Airbrush Rate</span>
+              <span>{brush.airbrushRate}/s</span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max="120"
+              step="1"
+              value={brush.airbrushRate}
+              onChange={(e) => handleChange('airbrushRate', parseInt(e.target.value))}
+              className="w-full accent-blue-500 h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+        )}
+        <div className="flex bg-neutral-800 p-1 rounded-lg border border-neutral-700 gap-1">
+            <button
+              onClick={() => handleChange('projectionPaint', false)}
+              className={`flex-1 py-1.5 rounded text-[10px] font-medium transition-colors ${!brush.projectionPaint ? 'bg-neutral-600 text-white shadow-sm' : 'text-neutral-400 hover:text-neutral-200'}`}
+              title="Stamp directly on the surface, following it across UV seams"
+            >
+              Surface
+            </button>
+            <button
+              onClick={() => handleChange('projectionPaint', true)}
+              className={`flex-1 py-1.5 rounded text-[10px] font-medium transition-colors ${brush.projectionPaint ? 'bg-blue-600 text-white shadow-sm' : 'text-neutral-400 hover:text-neutral-200'}`}
+              title="Paint on the screen and project through the camera onto visible surfaces"
+            >
+              Projection
+            </button>
+        </div>
+      </div>
+
+      {/* Stroke Stabilizer */}
+      {brush.mode !== 'curve' && (
+        <div className="space-y-2">
+          <label className="text-xs uppercase tracking-wider text-neutral-500 font-semibold">Stabilizer</label>
+          <div className="flex bg-neutral-800 p-1 rounded-lg border border-neutral-700 gap-1">
+            {([['none', 'Off'], ['lazy', 'Lazy Mouse'], ['average', 'Average']] as [StabilizerMode, string][]).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => handleChange('stabilizer', mode)}
+                className={`flex-1 py-1.5 rounded text-[10px] font-medium transition-colors ${brush.stabilizer === mode ? 'bg-blue-600 text-white shadow-sm' : 'text-neutral-400 hover:text-neutral-200'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {brush.stabilizer === 'lazy' && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-neutral-400">
+                <span>String Length</span>
+                <span>{brush.stabilizerRadius}px</span>
+              </div>
+              <input
+                type="range"
+                min="1"
+                max="150"
+                step="1"
+                value={brush.stabilizerRadius}
+                onChange={(e) => handleChange('stabilizerRadius', parseInt(e.target.value))}
+                className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+          )}
+          {brush.stabilizer === 'average' && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-neutral-400">
+                <span>Window</span>
+                <span>{brush.stabilizerWindow} samples</span>
+              </div>
+              <input
+                type="range"
+                min="2"
+                max="32"
+                step="1"
+                value={brush.stabilizerWindow}
+                onChange={(e) => handleChange('stabilizerWindow', parseInt(e.target.value))}
+                className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+          )}
+          {brush.stabilizer !== 'none' && (
+            <label className="flex items-center gap-2 text-xs text-neutral-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={brush.stabilizerCatchUp}
+                onChange={(e) => handleChange('stabilizerCatchUp', e.target.checked)}
+                className="accent-blue-500"
+              />
+              Catch up at stroke end
+            </label>
+          )}
+        </div>
+      )}
+
+      {/* Symmetry */}
+      <div className="space-y-2">
+        <label className="text-xs uppercase tracking-wider text-neutral-500 font-semibold flex justify-between">
+          Symmetry
+          <button
+            onClick={() => handleSymmetryChange('showPlanes', !symmetry.showPlanes)}
+            className={`text-[10px] normal-case ${symmetry.showPlanes ? 'text-blue-400 hover:text-blue-300' : 'text-neutral-500 hover:text-neutral-300'}`}
+            title="Show symmetry planes in the viewport"
+          >
+            {symmetry.showPlanes ? 'Planes Shown' : 'Planes Hidden'}
+          </button>
+        </label>
+        <fieldset disabled={symmetryUnavailable} className="space-y-2 disabled:opacity-50">
+        <div className="grid grid-cols-3 gap-1">
+          {(['x', 'y', 'z'] as Axis[]).map(axis => (
+            <button
+              key={axis}
+              onClick={() => handleSymmetryChange('mirror', { ...symmetry.mirror, [axis]: !symmetry.mirror[axis] })}
+              className={`py-1.5 rounded text-[10px] font-bold uppercase transition-colors ${symmetry.mirror[axis] ? 'bg-blue-600 text-white shadow-sm' : 'bg-neutral-800 text-neutral-400 border border-neutral-700 hover:text-neutral-200'}`}
+              title={`Mirror across the ${axis.toUpperCase()} plane (object space)`}
+            >
+              Mirror {axis}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-neutral-400">
+            <span>Radial</span>
+            <span>{symmetry.radial > 1 ? `${symmetry.radial}×` : 'Off'}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="range"
+              min="1"
+              max="16"
+              step="1"
+              value={symmetry.radial}
+              onChange={(e) => handleSymmetryChange('radial', parseInt(e.target.value))}
+              className="flex-1 h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+            <select
+              value={symmetry.radialAxis}
+              onChange={(e) => handleSymmetryChange('radialAxis', e.target.value as Axis)}
+              className="bg-neutral-800 border border-neutral-700 rounded text-[10px] text-neutral-300 px-1 py-0.5"
+              title="Axis the radial copies turn around"
+            >
+              <option value="x">X</option>
+              <option value="y">Y</option>
+              <option value="z">Z</option>
+            </select>
+          </div>
+        </div>
+        </fieldset>
+        {symmetryUnavailable && (
+          <p className="text-[10px] text-amber-400">Symmetry is off while projection painting. Switch to surface painting to mirror strokes.</p>
+        )}
       </div>
 
       {/* Brush Mask/Tip */}
@@ -293,7 +515,7 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
               {brush.maskImage ? (
                 <img src={brush.maskImage} alt="mask" className="w-full h-full object-cover" />
               ) : (
-                <div className="w-4 h-4 rounded-full bg-white opacity-20"></div>
+                <img src={tipPreview} alt="tip" className="w-10 h-10" />
               )}
            </div>
            
@@ -314,6 +536,60 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
              </button>
            </div>
         </div>
+
+        {/* Procedural tip: only used without an image tip */}
+        {!brush.maskImage && (
+          <div className="space-y-2 bg-neutral-800 p-2 rounded border border-neutral-700">
+            <div className="flex items-center gap-2">
+              <select
+                value={brush.tip.shape}
+                onChange={(e) => handleTipChange('shape', e.target.value as TipShape)}
+                className="flex-1 bg-neutral-900 border border-neutral-700 rounded text-[10px] text-neutral-300 px-1 py-1"
+              >
+                {TIP_SHAPES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+              </select>
+              <button
+                onClick={() => handleChange('tip', DEFAULT_TIP)}
+                className="text-[10px] text-neutral-500 hover:text-neutral-200"
+                title="Back to the plain round tip"
+              >
+                Reset
+              </button>
+            </div>
+            {[
+              { label: 'Roundness', key: 'roundness', min: 0.05, max: 1, step: 0.01, val: brush.tip.roundness, show: true },
+              { label: 'Angle', key: 'angle', min: -180, max: 180, step: 1, val: brush.tip.angle, show: true },
+              { label: 'Points', key: 'sides', min: 3, max: 12, step: 1, val: brush.tip.sides, show: brush.tip.shape !== 'round' },
+              { label: 'Inset', key: 'starInset', min: 0.1, max: 0.9, step: 0.01, val: brush.tip.starInset, show: brush.tip.shape === 'star' },
+              { label: 'Edge Noise', key: 'noise', min: 0, max: 1, step: 0.01, val: brush.tip.noise, show: true },
+              { label: 'Noise Detail', key: 'noiseScale', min: 2, max: 32, step: 1, val: brush.tip.noiseScale, show: brush.tip.noise > 0 }
+            ].filter(c => c.show).map(control => (
+              <div key={control.key} className="space-y-1">
+                <div className="flex justify-between text-[10px] text-neutral-400">
+                  <span>{control.label}</span>
+                  <span>{control.key === 'angle' ? `${control.val}°` : control.val}</span>
+                </div>
+                <input
+                  type="range"
+                  min={control.min}
+                  max={control.max}
+                  step={control.step}
+                  value={control.val}
+                  onChange={(e) => handleTipChange(control.key as keyof ProceduralTip, parseFloat(e.target.value))}
+                  className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </div>
+            ))}
+            {brush.tip.noise > 0 && (
+              <button
+                onClick={() => handleTipChange('noiseSeed', Math.floor(Math.random() * 100000))}
+                className="w-full py-1 text-[10px] rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-200"
+              >
+                New Noise Seed
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Basic Settings */}
@@ -336,6 +612,135 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
               className="w-5 h-5 rounded-full overflow-hidden border-none p-0 bg-transparent cursor-pointer"
             />
           </div>
+          <div className="flex items-center gap-2 pt-1 text-[10px] text-neutral-400">
+            <span>Secondary</span>
+            <input
+              type="color"
+              value={brush.secondaryColor}
+              onChange={(e) => handleChange('secondaryColor', e.target.value)}
+              className="w-5 h-5 rounded overflow-hidden border-none p-0 bg-transparent cursor-pointer"
+            />
+            <button
+              onClick={() => setBrush({ ...brush, color: brush.secondaryColor, secondaryColor: brush.color })}
+              className="text-neutral-500 hover:text-neutral-200"
+              title="Swap primary and secondary colors"
+            >
+              ⇄ Swap
+            </button>
+          </div>
+        </div>
+
+        {/* Color Dynamics */}
+        <div className="space-y-2">
+          <label className="text-xs uppercase tracking-wider text-neutral-500 font-semibold flex justify-between">
+            Color Dynamics
+            <div className="flex bg-neutral-800 rounded border border-neutral-700 normal-case font-medium">
+              {(['stroke', 'stamp'] as const).map(r => (
+                <button
+                  key={r}
+                  onClick={() => handleChange('colorRandomize', r)}
+                  className={`px-2 py-0.5 rounded text-[10px] ${brush.colorRandomize === r ? 'bg-neutral-600 text-white' : 'text-neutral-500 hover:text-neutral-300'}`}
+                  title={r === 'stroke' ? 'One random color per stroke' : 'A new random color for every stamp'}
+                >
+                  Per {r === 'stroke' ? 'Stroke' : 'Stamp'}
+                </button>
+              ))}
+            </div>
+          </label>
+          {[
+            { label: 'Hue Jitter', key: 'hueJitter', val: brush.hueJitter },
+            { label: 'Saturation Jitter', key: 'saturationJitter', val: brush.saturationJitter },
+            { label: 'Value Jitter', key: 'valueJitter', val: brush.valueJitter },
+          ].map(s => (
+            <div key={s.key} className="space-y-1">
+              <div className="flex justify-between text-xs text-neutral-400">
+                <span>{s.label}</span>
+                <span>{Math.round(s.val * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={s.val}
+                onChange={(e) => handleChange(s.key as keyof BrushSettings, parseFloat(e.target.value))}
+                className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
+              />
+            </div>
+          ))}
+          <div className="space-y-1">
+            <div className="flex justify-between items-center text-xs text-neutral-400">
+              <span>Secondary Mix</span>
+              <div className="flex items-center gap-2">
+                <select
+                  value={brush.secondaryMixInput}
+                  onChange={(e) => handleChange('secondaryMixInput', e.target.value)}
+                  className="bg-neutral-800 border border-neutral-700 rounded text-[10px] text-neutral-300 px-1 py-0.5"
+                  title="Input that drives the mix"
+                >
+                  <option value="none">Constant</option>
+                  {DYNAMICS_INPUTS.map(i => <option key={i.value} value={i.value}>{i.label}</option>)}
+                </select>
+                <span>{Math.round(brush.secondaryMix * 100)}%</span>
+              </div>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={brush.secondaryMix}
+              onChange={(e) => handleChange('secondaryMix', parseFloat(e.target.value))}
+              className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
+            />
+          </div>
+        </div>
+
+        {/* Material Channels */}
+        <div className="space-y-2">
+          <label className="text-xs uppercase tracking-wider text-neutral-500 font-semibold">Channels</label>
+          <div className="grid grid-cols-3 gap-1">
+            {MATERIAL_CHANNELS.map(c => (
+              <button
+                key={c.value}
+                onClick={() => handleToggleChannel(c.value)}
+                className={`py-1 rounded text-[10px] font-medium border transition-colors ${brush.channels.includes(c.value) ? 'bg-blue-600 border-blue-500 text-white' : 'bg-neutral-800 border-neutral-700 text-neutral-400 hover:text-white'}`}
+              >
+                {c.label}
+              </button>
+            ))}
+          </div>
+          {brush.channels.length === 0 && (
+            <p className="text-[10px] text-yellow-500">No channel selected: strokes paint nothing.</p>
+          )}
+          {(['roughness', 'metallic', 'height'] as const).filter(c => brush.channels.includes(c)).map(c => (
+            <div key={c} className="space-y-1">
+              <div className="flex justify-between text-xs text-neutral-400">
+                <span>{MATERIAL_CHANNELS.find(m => m.value === c)!.label}</span>
+                <span>{Math.round(brush[c] * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={brush[c]}
+                onChange={(e) => handleChange(c, parseFloat(e.target.value))}
+                className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-neutral-400"
+              />
+            </div>
+          ))}
+          {brush.channels.includes('emissive') && (
+            <div className="flex justify-between items-center text-xs text-neutral-400">
+              <span>Emissive Color</span>
+              <input
+                type="color"
+                value={brush.emissive}
+                onChange={(e) => handleChange('emissive', e.target.value)}
+                className="w-5 h-5 rounded-full overflow-hidden border-none p-0 bg-transparent cursor-pointer"
+              />
+            </div>
+          )}
         </div>
         
         {/* Texture Mix */}
@@ -382,7 +787,7 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
         ))}
          
          {/* Hardness */}
-         <div className={`space-y-1 transition-opacity ${brush.isAirbrush || brush.maskImage ? 'opacity-40 pointer-events-none' : 'opacity-100'}`}>
+         <div className={`space-y-1 transition-opacity ${brush.maskImage ? 'opacity-40 pointer-events-none' : 'opacity-100'}`}>
             <div className="flex justify-between text-xs text-neutral-400">
               <span>Hardness</span>
               <span>{Math.round(brush.hardness * 100)}%</span>
@@ -425,6 +830,77 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
             </div>
           ))}
 
+          <hr className="border-neutral-800" />
+
+          {/* Pen & Stroke Dynamics: inputs driving brush parameters through response curves */}
+          <label className="text-xs uppercase tracking-wider text-neutral-500 font-semibold flex justify-between">
+            Pen & Stroke Dynamics
+            <button onClick={handleAddDynamics} className="text-blue-400 hover:text-blue-300" title="Add mapping">
+              <IconPlus className="w-4 h-4" />
+            </button>
+          </label>
+          {brush.dynamics.length === 0 && <p className="text-[10px] text-neutral-500">No mappings. Every stamp uses the base settings.</p>}
+          {brush.dynamics.map(m => (
+            <div key={m.id} className="bg-neutral-800/60 border border-neutral-700 rounded p-2 space-y-2">
+              <div className="flex items-center gap-1">
+                <select
+                  value={m.input}
+                  onChange={(e) => handleDynamicsChange(m.id, { input: e.target.value as DynamicsInput })}
+                  className="flex-1 bg-neutral-900 border border-neutral-700 rounded text-[10px] text-neutral-300 px-1 py-0.5"
+                >
+                  {DYNAMICS_INPUTS.map(i => <option key={i.value} value={i.value}>{i.label}</option>)}
+                </select>
+                <span className="text-[10px] text-neutral-500">→</span>
+                <select
+                  value={m.target}
+                  onChange={(e) => handleDynamicsChange(m.id, { target: e.target.value as DynamicsTarget })}
+                  className="flex-1 bg-neutral-900 border border-neutral-700 rounded text-[10px] text-neutral-300 px-1 py-0.5"
+                >
+                  {DYNAMICS_TARGETS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                </select>
+                <button
+                  onClick={() => setExpandedDynamics(expandedDynamics === m.id ? null : m.id)}
+                  className={`text-[10px] px-1 ${expandedDynamics === m.id ? 'text-blue-400' : 'text-neutral-500 hover:text-neutral-300'}`}
+                  title="Edit response curve"
+                >
+                  Curve
+                </button>
+                <button onClick={() => handleRemoveDynamics(m.id)} className="text-neutral-500 hover:text-red-400" title="Remove mapping">
+                  <IconTrash className="w-3 h-3" />
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] text-neutral-400 w-10">Amount</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={m.amount}
+                  onChange={(e) => handleDynamicsChange(m.id, { amount: parseFloat(e.target.value) })}
+                  className="flex-1 h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                <span className="text-[10px] text-neutral-400 w-8 text-right">{Math.round(m.amount * 100)}%</span>
+              </div>
+              {expandedDynamics === m.id && (
+                <div className="space-y-1">
+                  <CurveEditor curve={m.curve} onChange={(curve) => handleDynamicsChange(m.id, { curve })} />
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const preset = CURVE_PRESETS[parseInt(e.target.value)];
+                      if (preset) handleDynamicsChange(m.id, { curve: DynamicsAPI.curveFromEasing(preset.easing, preset.from, preset.to) });
+                    }}
+                    className="w-full bg-neutral-900 border border-neutral-700 rounded text-[10px] text-neutral-300 px-1 py-0.5"
+                  >
+                    <option value="">Curve preset…</option>
+                    {CURVE_PRESETS.map((preset, i) => <option key={preset.label} value={i}>{preset.label}</option>)}
+                  </select>
+                </div>
+              )}
+            </div>
+          ))}
+
       </div>
       
       {/* Settings Section for Cull Backfaces */}
@@ -443,6 +919,16 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
 
   const renderStencilTab = () => (
     <div className="space-y-5">
+      <StencilLibraryPanel
+        stencil={stencil}
+        setStencil={setStencil}
+        stencils={stencils}
+        onSelect={onSelectStencil}
+        onAdd={onAddStencil}
+        onRemove={onRemoveStencil}
+        onLoadRig={onLoadStencilRig}
+      />
+
       <div className="space-y-2">
         <label className="text-xs uppercase tracking-wider text-neutral-500 font-semibold">Stencil Grid</label>
         <button
@@ -484,8 +970,79 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
                 >
                   <IconGrid className="w-3 h-3" /> Add Loop
                 </button>
+                <button
+                  onClick={() => handleStencilChange('tool', 'remove-loop')}
+                  className={`flex-1 py-1.5 rounded text-[10px] font-bold uppercase transition-colors flex flex-col items-center gap-1 ${stencil.tool === 'remove-loop' ? 'bg-red-600 text-white' : 'text-neutral-400 hover:text-neutral-200'}`}
+                >
+                  <IconTrash className="w-3 h-3" /> Remove Loop
+                </button>
+             </div>
+          )}
+
+          {stencil.mode === 'edit' && stencil.tool === 'select' && (
+             <div className="space-y-2 mt-2">
+                <div className="flex gap-1">
+                   <button
+                     onClick={() => handleStencilChange('proportional', !stencil.proportional)}
+                     className={`flex-1 py-1.5 rounded text-[10px] font-bold uppercase transition-colors ${stencil.proportional ? 'bg-yellow-600 text-white' : 'bg-neutral-800 text-neutral-400 border border-neutral-700'}`}
+                     title="Moving points drags nearby points along, fading out with distance"
+                   >
+                     Proportional
+                   </button>
+                   <button
+                     onClick={() => handleStencilChange('snapToCuts', !stencil.snapToCuts)}
+                     className={`flex-1 py-1.5 rounded text-[10px] font-bold uppercase transition-colors ${stencil.snapToCuts ? 'bg-yellow-600 text-white' : 'bg-neutral-800 text-neutral-400 border border-neutral-700'}`}
+                     title="Moved points snap onto the straight (undeformed) cut lines"
+                   >
+                     Snap to Cuts
+                   </button>
+                </div>
+                {stencil.proportional && (
+                   <div className="space-y-1">
+                      <div className="flex justify-between text-xs text-neutral-400">
+                         <span>Falloff Radius</span>
+                         <span>{stencil.proportionalRadius.toFixed(2)}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0.05"
+                        max="2"
+                        step="0.01"
+                        value={stencil.proportionalRadius}
+                        onChange={(e) => handleStencilChange('proportionalRadius', parseFloat(e.target.value))}
+                        className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                      />
+                   </div>
+                )}
+                <div className="flex gap-1">
+                   {([['row', 'Reset Row'], ['col', 'Reset Col'], ['grid', 'Reset Grid']] as const).map(([scope, label]) => (
+                      <button
+                        key={scope}
+                        onClick={() => eventBus.emit(Events.CMD_STENCIL_RESET, { scope })}
+                        className="flex-1 py-1 text-[10px] rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-200"
+                        title={scope === 'grid' ? 'Straighten every point' : `Straighten the ${scope === 'row' ? 'rows' : 'columns'} of the selected points`}
+                      >
+                        {label}
+                      </button>
+                   ))}
+                </div>
              </div>
           )}
+
+          <div className="flex bg-neutral-800 p-1 rounded-lg border border-neutral-700 mt-2" title="How the grid bends the image between its points">
+            <button
+              onClick={() => handleStencilChange('interpolation', 'linear')}
+              className={`flex-1 py-1.5 rounded text-[10px] font-bold uppercase transition-colors ${stencil.interpolation === 'linear' ? 'bg-neutral-600 text-white' : 'text-neutral-400 hover:text-neutral-200'}`}
+            >
+              Linear Warp
+            </button>
+            <button
+              onClick={() => handleStencilChange('interpolation', 'smooth')}
+              className={`flex-1 py-1.5 rounded text-[10px] font-bold uppercase transition-colors ${stencil.interpolation === 'smooth' ? 'bg-green-600 text-white' : 'text-neutral-400 hover:text-neutral-200'}`}
+            >
+              Smooth Warp
+            </button>
+          </div>
         </>
       )}
 
@@ -502,7 +1059,7 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
               </div>
             )}
             <label className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center cursor-pointer">
-               <span className="text-xs text-white font-medium">Change</span>
+               <span className="text-xs text-white font-medium" title="The lattice and placement are kept">Change</span>
                <input type="file" className="hidden" accept="image/*" onChange={handleUploadStencil} />
             </label>
          </div>
@@ -537,8 +1094,9 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
       </div>
 
       <div className="bg-neutral-800 p-3 rounded border border-neutral-700 text-[10px] text-neutral-400 space-y-2">
-        {stencil.mode === 'edit' && stencil.tool === 'select' && <p className="text-yellow-400 font-bold">Tool: Drag dots to warp. Drag grid to move.</p>}
+        {stencil.mode === 'edit' && stencil.tool === 'select' && <p className="text-yellow-400 font-bold">Tool: Drag dots to warp. Drag grid to move. Shift+click or Shift+drag to select several dots.</p>}
         {stencil.mode === 'edit' && stencil.tool === 'loop' && <p className="text-orange-400 font-bold">Tool: Hover near edge lines to detect loop. Click to insert.</p>}
+        {stencil.mode === 'edit' && stencil.tool === 'remove-loop' && <p className="text-red-400 font-bold">Tool: Hover over a cut line to highlight it. Click to remove.</p>}
         {stencil.mode === 'paint' && <p className="text-blue-400 font-bold">Tool: Paint or Project is active.</p>}
       </div>
 
@@ -554,6 +1112,80 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
 
   const renderViewTab = () => (
     <div className="space-y-5">
+      {/* Paint Surface Section */}
+      <div className="space-y-2">
+        <label className="text-xs uppercase tracking-wider text-neutral-500 font-semibold">Model</label>
+        <div className="bg-neutral-800 rounded p-2 border border-neutral-700 text-xs text-neutral-300 truncate" title={meshName}>
+          {meshName}
+        </div>
+        <div className="flex gap-2">
+          <label className="flex-1 py-2 bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 rounded text-xs text-center text-neutral-300 cursor-pointer transition-colors">
+            Import Mesh
+            <input type="file" className="hidden" accept={MESH_FORMATS.join(',')} onChange={handleUploadMesh} />
+          </label>
+          <button
+            onClick={onResetMesh}
+            className="flex-1 py-2 bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 rounded text-xs text-neutral-400 transition-colors"
+          >
+            Reset Sphere
+          </button>
+        </div>
+        <p className="text-[10px] text-neutral-500">OBJ, glTF/GLB or PLY with UVs. Models are centered and scaled to fit.</p>
+      </div>
+
+      {/* Texture Export Section */}
+      <div className="space-y-2">
+        <label className="text-xs uppercase tracking-wider text-neutral-500 font-semibold">Export Textures</label>
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={exportSettings.format}
+            onChange={(e) => setExportSettings({ ...exportSettings, format: e.target.value as ExportSettings['format'] })}
+            className="bg-neutral-800 border border-neutral-700 rounded p-1.5 text-xs text-neutral-300"
+          >
+            <option value="png">PNG</option>
+            <option value="webp">WebP</option>
+            <option value="tga">TGA</option>
+          </select>
+          <select
+            value={exportSettings.resolution}
+            onChange={(e) => setExportSettings({ ...exportSettings, resolution: parseInt(e.target.value) })}
+            className="bg-neutral-800 border border-neutral-700 rounded p-1.5 text-xs text-neutral-300"
+          >
+            {EXPORT_RESOLUTIONS.map(r => <option key={r} value={r}>{r} px</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-neutral-400">
+            <span>Edge Padding</span>
+            <span>{exportSettings.padding > 0 ? `${exportSettings.padding}px` : 'Off'}</span>
+          </div>
+          <input
+            type="range" min="0" max="32" step="1"
+            value={exportSettings.padding}
+            onChange={(e) => setExportSettings({ ...exportSettings, padding: parseInt(e.target.value) })}
+            className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+          />
+        </div>
+        <div className="flex gap-4 text-xs text-neutral-300">
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={exportSettings.composite} onChange={(e) => setExportSettings({ ...exportSettings, composite: e.target.checked })} />
+            Composite
+          </label>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={exportSettings.layers} onChange={(e) => setExportSettings({ ...exportSettings, layers: e.target.checked })} />
+            Each Layer
+          </label>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={isExporting || (!exportSettings.composite && !exportSettings.layers)}
+          className="w-full py-2 bg-yellow-600 hover:bg-yellow-500 rounded text-white text-xs font-bold disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isExporting ? 'Exporting...' : 'Export'}
+        </button>
+        <p className="text-[10px] text-neutral-500">Padding bleeds island edges into the UV gutter to hide seams.</p>
+      </div>
+
       {/* Axis Widget Section */}
       <div className="space-y-3">
         <label className="text-xs uppercase tracking-wider text-neutral-500 font-semibold">Orientation Gizmo</label>
@@ -589,9 +1221,23 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
   return (
     <div className="w-64 bg-neutral-900 border-r border-neutral-700 flex flex-col h-full overflow-hidden">
       <div className="p-4 pb-0">
-         <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-500 mb-4">
+         <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-500 mb-2">
            PolyPaint 3D
          </h1>
+         {/* Project File */}
+         <div className="flex gap-2 mb-4">
+            <label className="flex-1 py-1 bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 rounded text-[10px] text-center text-neutral-300 cursor-pointer transition-colors" title="Open project (Ctrl+O)">
+               Open
+               <input type="file" className="hidden" accept={PROJECT_EXTENSION} onChange={handleOpenProject} />
+            </label>
+            <button
+               onClick={onSaveProject}
+               className="flex-1 py-1 bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 rounded text-[10px] text-neutral-300 transition-colors"
+               title="Save project (Ctrl+S)"
+            >
+               Save
+            </button>
+         </div>
          {/* Tabs */}
          <div className="flex border-b border-neutral-700">
             <button
@@ -655,12 +1301,38 @@ const Toolbar: React.FC<ToolbarProps> = ({ brush, setBrush, stencil, setStencil,
                   {tip.src && <img src={tip.src} className="w-full h-full object-contain invert opacity-80" />}
                 </button>
              ))}
+             {tipLibrary.length > 0 && (
+                <div className="col-span-4 text-[10px] uppercase tracking-wider text-neutral-500 font-semibold pt-2">Imported ({tipLibrary.length})</div>
+             )}
+             {tipLibrary.map(tip => (
+                <div key={tip.id} className="relative group">
+                  <button
+                    onClick={() => handleSelectTip(tip.src)}
+                    title={`${tip.name} (${tip.source})`}
+                    className={`w-full aspect-square rounded border flex flex-col items-center justify-center p-1 ${brush.maskImage === tip.src ? 'border-blue-500 bg-neutral-800' : 'border-neutral-700'}`}
+                  >
+                    <img src={tip.src} className="w-full h-full object-contain invert opacity-80" />
+                  </button>
+                  <button
+                    onClick={() => onRemoveTip(tip.id)}
+                    className="absolute top-0.5 right-0.5 hidden group-hover:block text-neutral-400 hover:text-red-400 bg-neutral-900/80 rounded p-0.5"
+                    title="Remove from library"
+                  >
+                    <IconTrash className="w-3 h-3" />
+                  </button>
+                </div>
+             ))}
           </div>
-          <div className="mt-3 pt-3 border-t border-neutral-700">
+          <div className="mt-3 pt-3 border-t border-neutral-700 space-y-2">
              <label className="block w-full text-center py-2 border border-dashed border-neutral-600 rounded text-xs text-neutral-400 cursor-pointer hover:bg-neutral-800">
                 Upload Custom Image
                 <input type="file" className="hidden" accept="image/*" onChange={handleUploadTip} />
              </label>
+             <label className="block w-full text-center py-2 border border-dashed border-neutral-600 rounded text-xs text-neutral-400 cursor-pointer hover:bg-neutral-800">
+                Import Brushes (ABR, GBR, GIH)
+                <input type="file" className="hidden" multiple accept={BRUSH_FILE_EXTENSIONS.join(',')} onChange={handleImportBrushFiles} />
+             </label>
+             <p className="text-[10px] text-neutral-500">Imported tips are also added as brush presets.</p>
           </div>
         </div>
       )}
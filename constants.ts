@@ -1,4 +1,4 @@
-import { BrushPreset } from './types';
+import { BrushPreset, BlendMode, MaterialChannel, StabilizerMode, SymmetrySettings, DynamicsInput, DynamicsTarget, DynamicsMapping, ProceduralTip, TipShape } from './types';
 
 export const TEXTURE_SIZE = 2048;
 
@@ -29,8 +29,48 @@ export const TIP_LIBRARY = [
     { name: 'Rainbow (Color)', src: BRUSH_MASKS.RAINBOW }
 ];
 
+// Layer blend modes in menu order. `op` is the equivalent canvas composite operation.
+export const BLEND_MODES: { value: BlendMode; label: string; op: GlobalCompositeOperation }[] = [
+  { value: 'normal', label: 'Normal', op: 'source-over' },
+  { value: 'darken', label: 'Darken', op: 'darken' },
+  { value: 'multiply', label: 'Multiply', op: 'multiply' },
+  { value: 'color-burn', label: 'Color Burn', op: 'color-burn' },
+  { value: 'lighten', label: 'Lighten', op: 'lighten' },
+  { value: 'screen', label: 'Screen', op: 'screen' },
+  { value: 'color-dodge', label: 'Color Dodge', op: 'color-dodge' },
+  { value: 'add', label: 'Add (Linear Dodge)', op: 'lighter' },
+  { value: 'overlay', label: 'Overlay', op: 'overlay' },
+  { value: 'soft-light', label: 'Soft Light', op: 'soft-light' },
+  { value: 'hard-light', label: 'Hard Light', op: 'hard-light' },
+  { value: 'difference', label: 'Difference', op: 'difference' },
+  { value: 'exclusion', label: 'Exclusion', op: 'exclusion' },
+  { value: 'hue', label: 'Hue', op: 'hue' },
+  { value: 'saturation', label: 'Saturation', op: 'saturation' },
+  { value: 'color', label: 'Color', op: 'color' },
+  { value: 'luminosity', label: 'Luminosity', op: 'luminosity' }
+];
+
+// Plain round tip
+export const DEFAULT_TIP: ProceduralTip = {
+  shape: 'round',
+  roundness: 1,
+  angle: 0,
+  sides: 5,
+  starInset: 0.5,
+  noise: 0,
+  noiseScale: 8,
+  noiseSeed: 1
+};
+
+export const TIP_SHAPES: { value: TipShape; label: string }[] = [
+  { value: 'round', label: 'Ellipse' },
+  { value: 'polygon', label: 'Polygon' },
+  { value: 'star', label: 'Star' }
+];
+
 export const INITIAL_BRUSH = {
   color: '#ff0055',
+  secondaryColor: '#ffffff',
   size: 20,
   opacity: 1,
   hardness: 0.8,
@@ -38,14 +78,73 @@ export const INITIAL_BRUSH = {
   spacing: 0.1, 
   strength: 1.0, 
   isAirbrush: false,
+  airbrushRate: 20,
   usePressure: true,
   maskImage: null as string | null,
+  tip: DEFAULT_TIP,
   textureMix: 0,
   mode: 'paint' as const,
   curvePreviewMode: 'stroke' as const,
   rotation: 0,
   rotationJitter: 0,
-  positionJitter: 0
+  positionJitter: 0,
+  projectionPaint: false,
+  stabilizer: 'none' as StabilizerMode,
+  stabilizerRadius: 20,
+  stabilizerWindow: 8,
+  stabilizerCatchUp: true,
+  // Pressure drives size 50-100% and opacity 10-100%
+  dynamics: [
+    { id: 'pressure-size', input: 'pressure', target: 'size', curve: [{ x: 0, y: 0.5 }, { x: 1, y: 1 }], amount: 1 },
+    { id: 'pressure-opacity', input: 'pressure', target: 'opacity', curve: [{ x: 0, y: 0.1 }, { x: 0.1, y: 0.1 }, { x: 1, y: 1 }], amount: 1 }
+  ] as DynamicsMapping[],
+  hueJitter: 0,
+  saturationJitter: 0,
+  valueJitter: 0,
+  secondaryMix: 0,
+  secondaryMixInput: 'pressure' as DynamicsInput | 'none',
+  colorRandomize: 'stamp' as const,
+  channels: ['color'] as MaterialChannel[],
+  roughness: 0.5,
+  metallic: 1,
+  height: 0.5,
+  emissive: '#ffffff'
+};
+
+// Material channels in UI order. `fill` is the value showing where no layer paints the channel
+// (base color stays transparent).
+export const MATERIAL_CHANNELS: { value: MaterialChannel; label: string; fill: string | null }[] = [
+  { value: 'color', label: 'Base Color', fill: null },
+  { value: 'roughness', label: 'Roughness', fill: '#808080' },
+  { value: 'metallic', label: 'Metallic', fill: '#1a1a1a' },
+  { value: 'height', label: 'Height / Normal', fill: '#808080' },
+  { value: 'emissive', label: 'Emissive', fill: '#000000' }
+];
+
+export const DYNAMICS_INPUTS: { value: DynamicsInput; label: string }[] = [
+  { value: 'pressure', label: 'Pressure' },
+  { value: 'tilt', label: 'Tilt' },
+  { value: 'twist', label: 'Twist' },
+  { value: 'velocity', label: 'Velocity' },
+  { value: 'distance', label: 'Distance' },
+  { value: 'random', label: 'Random' }
+];
+
+export const DYNAMICS_TARGETS: { value: DynamicsTarget; label: string }[] = [
+  { value: 'size', label: 'Size' },
+  { value: 'opacity', label: 'Opacity' },
+  { value: 'flow', label: 'Flow' },
+  { value: 'hardness', label: 'Hardness' },
+  { value: 'rotation', label: 'Rotation' },
+  { value: 'jitter', label: 'Scatter' },
+  { value: 'color', label: 'Hue Shift' }
+];
+
+export const DEFAULT_SYMMETRY: SymmetrySettings = {
+  mirror: { x: false, y: false, z: false },
+  radial: 1,
+  radialAxis: 'y',
+  showPlanes: true
 };
 
 export const PRESET_COLORS = [
@@ -56,6 +155,8 @@ export const DEFAULT_PRESETS: BrushPreset[] = [
   {
     id: 'hard-round',
     name: 'Hard Round',
+    category: 'Basic',
+    tags: ['round', 'hard'],
     settings: {
       hardness: 1.0,
       flow: 1.0,
@@ -64,24 +165,55 @@ export const DEFAULT_PRESETS: BrushPreset[] = [
       isAirbrush: false,
       usePressure: true,
       maskImage: null,
+      tip: DEFAULT_TIP,
       textureMix: 0,
       mode: 'paint',
       rotation: 0,
       rotationJitter: 0,
-      positionJitter: 0
+      positionJitter: 0,
+      hueJitter: 0,
+      saturationJitter: 0,
+      valueJitter: 0,
+      secondaryMix: 0
+    }
+  },
+  {
+    id: 'inking-pen',
+    name: 'Inking Pen',
+    category: 'Inking',
+    tags: ['pen', 'line', 'stabilized'],
+    settings: {
+      size: 8,
+      hardness: 1.0,
+      flow: 1.0,
+      opacity: 1.0,
+      spacing: 0.05,
+      isAirbrush: false,
+      usePressure: true,
+      maskImage: null,
+      tip: DEFAULT_TIP,
+      textureMix: 0,
+      mode: 'paint',
+      stabilizer: 'lazy',
+      stabilizerRadius: 30,
+      stabilizerCatchUp: true
     }
   },
   {
     id: 'soft-airbrush',
     name: 'Soft Airbrush',
+    category: 'Basic',
+    tags: ['round', 'soft', 'airbrush'],
     settings: {
       hardness: 0,
       flow: 0.1,
       opacity: 0.5,
       spacing: 0.1,
       isAirbrush: true,
+      airbrushRate: 30,
       usePressure: true,
       maskImage: null,
+      tip: DEFAULT_TIP,
       textureMix: 0,
       mode: 'paint'
     }
@@ -89,6 +221,8 @@ export const DEFAULT_PRESETS: BrushPreset[] = [
   {
     id: 'ink-splatter',
     name: 'Ink Splatter',
+    category: 'Texture',
+    tags: ['splatter', 'ink'],
     settings: {
       size: 40,
       hardness: 0.5,
@@ -108,6 +242,8 @@ export const DEFAULT_PRESETS: BrushPreset[] = [
   {
     id: 'textured-chalk',
     name: 'Textured Chalk',
+    category: 'Texture',
+    tags: ['chalk', 'grunge', 'dry'],
     settings: {
       size: 30,
       hardness: 0.2,
@@ -123,9 +259,37 @@ export const DEFAULT_PRESETS: BrushPreset[] = [
       rotationJitter: 0.5
     }
   },
+  {
+    id: 'foliage',
+    name: 'Foliage',
+    category: 'Texture',
+    tags: ['leaves', 'scatter', 'color'],
+    settings: {
+      size: 35,
+      flow: 0.8,
+      opacity: 1.0,
+      spacing: 0.3,
+      isAirbrush: false,
+      maskImage: BRUSH_MASKS.SPLATTER,
+      textureMix: 0,
+      mode: 'paint',
+      color: '#3f7a2a',
+      secondaryColor: '#a8c24a',
+      rotationJitter: 1,
+      positionJitter: 0.4,
+      hueJitter: 0.06,
+      saturationJitter: 0.1,
+      valueJitter: 0.25,
+      secondaryMix: 1,
+      secondaryMixInput: 'random',
+      colorRandomize: 'stamp'
+    }
+  },
   {
     id: 'color-nebula',
     name: 'Nebula Cloud',
+    category: 'Effects',
+    tags: ['cloud', 'nebula', 'color'],
     settings: {
       size: 60,
       hardness: 0.0,
@@ -143,6 +307,8 @@ export const DEFAULT_PRESETS: BrushPreset[] = [
   {
     id: 'rainbow-brush',
     name: 'Rainbow Gradient',
+    category: 'Effects',
+    tags: ['gradient', 'color'],
     settings: {
       size: 50,
       hardness: 0,
@@ -0,0 +1,348 @@
+// Brush tip importers: Photoshop ABR (sampled tips, v1/v2 and v6+) and GIMP GBR/GIH.
+// Every tip becomes a white-on-black PNG, the same form as the built-in tips, so
+// BrushAPI.processMaskTip turns it into an alpha mask like any other image.
+
+export const BRUSH_FILE_EXTENSIONS = ['.abr', '.gbr', '.gih'];
+
+// Tips larger than this are scaled down on import; stamps are drawn far smaller anyway
+const MAX_TIP_SIZE = 512;
+
+// One tip read from a brush file
+export interface ImportedTip {
+  name: string;
+  src: string;       // PNG data URL, white ink on black
+  width: number;
+  height: number;
+  spacing?: number;  // Ratio of the tip size
+  angle?: number;    // Degrees
+  diameter?: number; // Pixels
+}
+
+// Tip coverage as read from the file: one byte per pixel, 255 = full ink
+interface RawTip {
+  name: string;
+  width: number;
+  height: number;
+  coverage: Uint8Array;
+  spacing?: number;
+  angle?: number;
+  diameter?: number;
+}
+
+// Big-endian cursor over a file
+const createReader = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  let pos = 0;
+  const need = (n: number) => {
+    if (pos + n > view.byteLength) throw new Error(`[BrushImportAPI] Unexpected end of file.`);
+  };
+  return {
+    get pos() { return pos; },
+    set pos(p: number) { pos = p; },
+    get length() { return view.byteLength; },
+    u8: () => { need(1); return view.getUint8(pos++); },
+    u16: () => { need(2); const v = view.getUint16(pos); pos += 2; return v; },
+    u32: () => { need(4); const v = view.getUint32(pos); pos += 4; return v; },
+    i32: () => { need(4); const v = view.getInt32(pos); pos += 4; return v; },
+    f64: () => { need(8); const v = view.getFloat64(pos); pos += 8; return v; },
+    bytes: (n: number) => { need(n); const v = new Uint8Array(buffer, pos, n); pos += n; return v; },
+    ascii: (n: number) => { need(n); let s = ''; for (let i = 0; i < n; i++) s += String.fromCharCode(view.getUint8(pos + i)); pos += n; return s; },
+    // Photoshop unicode string: character count, then UTF-16BE
+    unicode: () => {
+      need(4);
+      const count = view.getUint32(pos); pos += 4;
+      need(count * 2);
+      let s = '';
+      for (let i = 0; i < count; i++) s += String.fromCharCode(view.getUint16(pos + i * 2));
+      pos += count * 2;
+      return s.replace(/\0+$/, '');
+    },
+    skip: (n: number) => { need(n); pos += n; }
+  };
+};
+
+type Reader = ReturnType<typeof createReader>;
+
+// Photoshop PackBits rows, preceded by the compressed length of every row
+const unpackBits = (r: Reader, width: number, height: number): Uint8Array => {
+  const out = new Uint8Array(width * height);
+  const rowLengths: number[] = [];
+  for (let y = 0; y < height; y++) rowLengths.push(r.u16());
+  let o = 0;
+  rowLengths.forEach(length => {
+    const end = r.pos + length;
+    while (r.pos < end) {
+      let n = r.u8();
+      if (n >= 128) n -= 256;
+      if (n === -128) continue;
+      if (n < 0) {
+        const v = r.u8();
+        for (let i = 0; i < 1 - n; i++) out[o++] = v;
+      } else {
+        for (let i = 0; i <= n; i++) out[o++] = r.u8();
+      }
+    }
+  });
+  return out;
+};
+
+// Sampled tip image shared by every ABR version: bounds, depth, compression, pixels
+const readAbrSample = (r: Reader): { width: number; height: number; coverage: Uint8Array } => {
+  const top = r.i32(), left = r.i32(), bottom = r.i32(), right = r.i32();
+  const depth = r.u16();
+  const compressed = r.u8() === 1;
+  const width = right - left, height = bottom - top;
+  if (width <= 0 || height <= 0) throw new Error(`[BrushImportAPI] Empty tip.`);
+  if (depth !== 8 && depth !== 16) throw new Error(`[BrushImportAPI] Unsupported tip depth ${depth}.`);
+
+  if (compressed) {
+    if (depth !== 8) throw new Error(`[BrushImportAPI] Compressed 16-bit tips are not supported.`);
+    return { width, height, coverage: unpackBits(r, width, height) };
+  }
+  const stride = depth / 8;
+  const data = r.bytes(width * height * stride);
+  const coverage = new Uint8Array(width * height);
+  for (let i = 0; i < coverage.length; i++) coverage[i] = data[i * stride]; // High byte of 16-bit samples
+  return { width, height, coverage };
+};
+
+// ABR 1 and 2: a flat list of computed (skipped) and sampled brushes
+const parseAbrV12 = (r: Reader, version: number, baseName: string): RawTip[] => {
+  const count = r.u16();
+  const tips: RawTip[] = [];
+  for (let i = 0; i < count; i++) {
+    const type = r.u16();
+    const size = r.u32();
+    const next = r.pos + size;
+    if (type === 2) {
+      r.skip(4); // Misc
+      const spacing = r.u16();
+      const name = version === 2 ? r.unicode() : '';
+      r.skip(1 + 8); // Antialiasing, short bounds
+      const sample = readAbrSample(r);
+      tips.push({ name: name || `${baseName} ${tips.length + 1}`, ...sample, spacing: spacing > 0 ? spacing / 100 : undefined });
+    }
+    r.pos = next;
+  }
+  return tips;
+};
+
+// --- Photoshop action descriptors (the ABR "desc" section) ---
+// Only the value types brush descriptors use; anything else aborts the parse.
+
+type DescValue = number | string | boolean | DescValue[] | Descriptor | null;
+interface Descriptor { [key: string]: DescValue }
+
+const readKey = (r: Reader) => {
+  const length = r.u32();
+  return r.ascii(length === 0 ? 4 : length);
+};
+
+const readValue = (r: Reader, type: string): DescValue => {
+  switch (type) {
+    case 'Objc':
+    case 'GlbO': return readDescriptor(r);
+    case 'VlLs': {
+      const count = r.u32();
+      const list: DescValue[] = [];
+      for (let i = 0; i < count; i++) list.push(readValue(r, r.ascii(4)));
+      return list;
+    }
+    case 'doub': return r.f64();
+    case 'UntF': r.skip(4); return r.f64();
+    case 'long': return r.i32();
+    case 'comp': r.skip(8); return null;
+    case 'bool': return r.u8() !== 0;
+    case 'TEXT': return r.unicode();
+    case 'enum': readKey(r); return readKey(r);
+    case 'type':
+    case 'GlbC': r.unicode(); return readKey(r);
+    case 'tdta':
+    case 'alis': r.skip(r.u32()); return null;
+    case 'UnFl': {
+      r.skip(4);
+      const count = r.u32();
+      r.skip(count * 8);
+      return null;
+    }
+    default: throw new Error(`[BrushImportAPI] Unsupported descriptor type "${type}".`);
+  }
+};
+
+function readDescriptor(r: Reader): Descriptor {
+  r.unicode(); // Display name
+  readKey(r);  // Class
+  const count = r.u32();
+  const out: Descriptor = {};
+  for (let i = 0; i < count; i++) {
+    const key = readKey(r);
+    out[key] = readValue(r, r.ascii(4));
+  }
+  return out;
+}
+
+// Spacing, angle and diameter of every sampled tip in a "desc" section, by sample id
+const readAbrSettings = (r: Reader, end: number): Map<string, Partial<RawTip>> => {
+  const settings = new Map<string, Partial<RawTip>>();
+  try {
+    r.skip(4); // Descriptor version
+    const root = readDescriptor(r);
+    const presets = Array.isArray(root['Brsh']) ? root['Brsh'] : [];
+    presets.forEach(preset => {
+      const p = preset as Descriptor | null;
+      const shape = p && (p['Brsh'] as Descriptor | null);
+      if (!shape || typeof shape['sampledData'] !== 'string') return;
+      const num = (v: DescValue) => (typeof v === 'number' ? v : undefined);
+      const spacing = num(shape['Spcn']);
+      settings.set(shape['sampledData'], {
+        name: typeof p['Nm  '] === 'string' ? p['Nm  '] : undefined,
+        spacing: spacing !== undefined ? spacing / 100 : undefined,
+        angle: num(shape['Angl']),
+        diameter: num(shape['Dmtr'])
+      });
+    });
+  } catch (err) {
+    // Presets fall back to defaults; the tips themselves are still usable
+    console.warn(`[BrushImportAPI] Could not read brush settings.`, err);
+  }
+  r.pos = end;
+  return settings;
+};
+
+// ABR 6 and later: tagged "8BIM" sections; tips live in "samp", their settings in "desc"
+const parseAbrV6 = (r: Reader, baseName: string): RawTip[] => {
+  const subVersion = r.u16();
+  const sections = new Map<string, { start: number; end: number }>();
+  while (r.pos + 12 <= r.length) {
+    if (r.ascii(4) !== '8BIM') break;
+    const tag = r.ascii(4);
+    const size = r.u32();
+    sections.set(tag, { start: r.pos, end: r.pos + size });
+    r.pos += size;
+  }
+
+  let settings = new Map<string, Partial<RawTip>>();
+  const desc = sections.get('desc');
+  if (desc) {
+    r.pos = desc.start;
+    settings = readAbrSettings(r, desc.end);
+  }
+
+  const samp = sections.get('samp');
+  if (!samp) return [];
+  const tips: RawTip[] = [];
+  r.pos = samp.start;
+  while (r.pos + 4 < samp.end) {
+    const size = r.u32();
+    const next = r.pos + size + ((4 - (size % 4)) % 4); // Brushes are padded to 4 bytes
+    const start = r.pos;
+    const id = r.ascii(r.u8());
+    r.pos = start + (subVersion === 1 ? 47 : 301); // Sample id plus unknown header bytes
+    const sample = readAbrSample(r);
+    const found = settings.get(id) ?? {};
+    tips.push({ ...found, name: found.name || `${baseName} ${tips.length + 1}`, ...sample });
+    r.pos = next;
+  }
+  return tips;
+};
+
+const parseAbr = (r: Reader, baseName: string): RawTip[] => {
+  const version = r.u16();
+  if (version === 1 || version === 2) return parseAbrV12(r, version, baseName);
+  if (version === 6 || version === 7 || version === 10) return parseAbrV6(r, baseName);
+  throw new Error(`[BrushImportAPI] Unsupported ABR version ${version}.`);
+};
+
+// One GIMP brush (v1, or v2/v3 with the "GIMP" magic and spacing). Color brushes use their alpha.
+const parseGbr = (r: Reader, baseName: string): RawTip => {
+  const start = r.pos;
+  const headerSize = r.u32();
+  const version = r.u32();
+  const width = r.u32(), height = r.u32(), bytes = r.u32();
+  let spacing: number | undefined;
+  if (version !== 1) {
+    if (r.ascii(4) !== 'GIMP') throw new Error(`[BrushImportAPI] Not a GIMP brush.`);
+    spacing = r.u32() / 100;
+  }
+  const nameBytes = r.bytes(start + headerSize - r.pos);
+  const name = new TextDecoder().decode(nameBytes).replace(/\0.*$/, '').trim();
+  if (bytes !== 1 && bytes !== 4) throw new Error(`[BrushImportAPI] Unsupported GIMP brush depth ${bytes}.`);
+
+  const data = r.bytes(width * height * bytes);
+  const coverage = new Uint8Array(width * height);
+  for (let i = 0; i < coverage.length; i++) coverage[i] = data[i * bytes + bytes - 1];
+  return { name: name || baseName, width, height, coverage, spacing: spacing || undefined };
+};
+
+// GIMP image hose: a name line, a parameter line starting with the cell count, then one GBR per cell.
+// Cells import as separate tips.
+const parseGih = (r: Reader, baseName: string): RawTip[] => {
+  const readLine = () => {
+    const bytes: number[] = [];
+    for (let b = r.u8(); b !== 10; b = r.u8()) bytes.push(b);
+    return new TextDecoder().decode(new Uint8Array(bytes)).trim();
+  };
+  const name = readLine() || baseName;
+  const cells = parseInt(readLine(), 10);
+  if (!(cells > 0)) throw new Error(`[BrushImportAPI] Invalid GIMP image hose.`);
+  const tips: RawTip[] = [];
+  for (let i = 0; i < cells; i++) {
+    tips.push({ ...parseGbr(r, name), name: cells > 1 ? `${name} ${i + 1}` : name });
+  }
+  return tips;
+};
+
+// White ink on black, scaled down to MAX_TIP_SIZE
+const toImage = (tip: RawTip): ImportedTip => {
+  const full = document.createElement('canvas');
+  full.width = tip.width;
+  full.height = tip.height;
+  const image = new ImageData(tip.width, tip.height);
+  for (let i = 0; i < tip.coverage.length; i++) {
+    const v = tip.coverage[i];
+    image.data[i * 4] = v;
+    image.data[i * 4 + 1] = v;
+    image.data[i * 4 + 2] = v;
+    image.data[i * 4 + 3] = 255;
+  }
+  full.getContext('2d')!.putImageData(image, 0, 0);
+
+  const scale = Math.min(1, MAX_TIP_SIZE / Math.max(tip.width, tip.height));
+  let out = full;
+  if (scale < 1) {
+    out = document.createElement('canvas');
+    out.width = Math.max(1, Math.round(tip.width * scale));
+    out.height = Math.max(1, Math.round(tip.height * scale));
+    const ctx = out.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(full, 0, 0, out.width, out.height);
+  }
+  return {
+    name: tip.name,
+    src: out.toDataURL('image/png'),
+    width: tip.width,
+    height: tip.height,
+    spacing: tip.spacing,
+    angle: tip.angle,
+    diameter: tip.diameter ?? Math.max(tip.width, tip.height)
+  };
+};
+
+export const BrushImportAPI = {
+  // Every tip in an ABR, GBR or GIH file. Throws on unknown or damaged files.
+  parse: async (file: File): Promise<ImportedTip[]> => {
+    console.log(`[BrushImportAPI] parse(fileName=${file.name})`);
+    const r = createReader(await file.arrayBuffer());
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    const ext = file.name.toLowerCase().slice(file.name.lastIndexOf('.'));
+
+    let tips: RawTip[];
+    switch (ext) {
+      case '.abr': tips = parseAbr(r, baseName); break;
+      case '.gbr': tips = [parseGbr(r, baseName)]; break;
+      case '.gih': tips = parseGih(r, baseName); break;
+      default: throw new Error(`[BrushImportAPI] Unsupported brush file "${file.name}".`);
+    }
+    return tips.map(toImage);
+  }
+};
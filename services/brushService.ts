@@ -1,6 +1,21 @@
+import { BrushSettings, MaterialChannel } from '../types';
 import { generateBrushMask } from './geminiService';
 
+const toGray = (value: number) => {
+  const v = Math.round(Math.max(0, Math.min(1, value)) * 255).toString(16).padStart(2, '0');
+  return `#${v}${v}${v}`;
+};
+
 export const BrushAPI = {
+  // Color a stroke deposits into a material channel. Scalar channels are stored as gray levels.
+  channelColor: (brush: BrushSettings, channel: MaterialChannel): string => {
+    switch (channel) {
+      case 'color': return brush.color;
+      case 'emissive': return brush.emissive;
+      default: return toGray(brush[channel]);
+    }
+  },
+
   generateMask: async (prompt: string): Promise<string | null> => {
     console.log(`[BrushAPI] generateMask(prompt="${prompt}")`);
     return await generateBrushMask(prompt);
@@ -0,0 +1,136 @@
+import { Layer, LayerNode, BlendMode, MaterialChannel } from '../types';
+import { TEXTURE_SIZE, BLEND_MODES } from '../constants';
+
+const COMPOSITE_OPS = Object.fromEntries(BLEND_MODES.map(m => [m.value, m.op])) as Record<BlendMode, GlobalCompositeOperation>;
+
+const createContext = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = TEXTURE_SIZE;
+  canvas.height = TEXTURE_SIZE;
+  return canvas.getContext('2d')!;
+};
+
+// Scratch buffer for masked layers; masks must be applied before the layer is blended
+let scratch: CanvasRenderingContext2D | null = null;
+const getScratch = () => {
+  if (!scratch) scratch = createContext();
+  return scratch;
+};
+
+// Clipping: a copy of the current clip base (mask applied) and the clipped layer cut to its alpha.
+// Clipped layers directly follow their base, so one pair is enough even with nested groups.
+let clipBase: CanvasRenderingContext2D | null = null;
+let clipResult: CanvasRenderingContext2D | null = null;
+const getClipBuffers = () => {
+  if (!clipBase) clipBase = createContext();
+  if (!clipResult) clipResult = createContext();
+  return { base: clipBase, result: clipResult };
+};
+
+// One offscreen buffer per group nesting level, allocated on first use
+const groupBuffers: CanvasRenderingContext2D[] = [];
+const getGroupBuffer = (depth: number) => {
+  if (!groupBuffers[depth]) groupBuffers[depth] = createContext();
+  return groupBuffers[depth];
+};
+
+// The layer's pixels for `channel` with its mask applied; null when the layer does not carry the channel
+const resolveChannel = (layer: Layer, channel: MaterialChannel): HTMLCanvasElement | null => {
+  const source = channel === 'color' ? layer.canvas : layer.channels[channel]?.canvas;
+  if (!source) return null;
+  if (!layer.mask) return source;
+  const ctx = getScratch();
+  ctx.globalCompositeOperation = 'copy';
+  ctx.drawImage(source, 0, 0);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(layer.mask.canvas, 0, 0);
+  ctx.globalCompositeOperation = 'source-over';
+  return ctx.canvas;
+};
+
+const drawNodes = (ctx: CanvasRenderingContext2D, nodes: LayerNode[], depth: number, channel: MaterialChannel) => {
+  // State of the nearest unclipped sibling below: a layer that can clip, hidden (clipped layers hide
+  // with it), or none/group (the clip flag has no effect)
+  let base: 'layer' | 'hidden' | 'none' = 'none';
+
+  nodes.forEach((node, index) => {
+    const isClipped = !('children' in node) && node.clipped && base !== 'none';
+    // A base without this channel clips everything away, like a hidden one
+    const source = 'children' in node || !node.visible ? null : resolveChannel(node, channel);
+    if (!isClipped) base = 'children' in node ? 'none' : source ? 'layer' : 'hidden';
+    if (!node.visible) return;
+
+    if (!('children' in node)) {
+      if (!source) return;
+      let pixels = source;
+      if (isClipped) {
+        if (base === 'hidden') return;
+        const { base: baseCtx, result } = getClipBuffers();
+        result.globalCompositeOperation = 'copy';
+        result.drawImage(source, 0, 0);
+        result.globalCompositeOperation = 'destination-in';
+        result.drawImage(baseCtx.canvas, 0, 0);
+        pixels = result.canvas;
+      } else {
+        const next = nodes[index + 1];
+        if (next && !('children' in next) && next.clipped) {
+          // Keep this layer's alpha around for the clipped layers stacked on it
+          const { base: baseCtx } = getClipBuffers();
+          baseCtx.globalCompositeOperation = 'copy';
+          baseCtx.drawImage(source, 0, 0);
+        }
+      }
+      ctx.globalAlpha = node.opacity;
+      ctx.globalCompositeOperation = COMPOSITE_OPS[node.blendMode] ?? 'source-over';
+      ctx.drawImage(pixels, 0, 0);
+      return;
+    }
+
+    if (node.blendMode === 'pass-through' && node.opacity >= 1) {
+      // Children blend straight into the stack below
+      drawNodes(ctx, node.children, depth, channel);
+      return;
+    }
+
+    const buffer = getGroupBuffer(depth);
+    buffer.globalAlpha = 1;
+    buffer.globalCompositeOperation = 'copy';
+    if (node.blendMode === 'pass-through') {
+      // Faded pass-through: blend children over a copy of the backdrop, then cross-fade
+      // that result over the original backdrop by the group opacity.
+      buffer.drawImage(ctx.canvas, 0, 0);
+    } else {
+      // Isolated: children only see each other
+      buffer.clearRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+    }
+    drawNodes(buffer, node.children, depth + 1, channel);
+
+    ctx.globalAlpha = node.opacity;
+    ctx.globalCompositeOperation = node.blendMode === 'pass-through' ? 'source-over' : (COMPOSITE_OPS[node.blendMode] ?? 'source-over');
+    ctx.drawImage(buffer.canvas, 0, 0);
+  });
+};
+
+export const CompositeAPI = {
+  // The layer's pixels as they enter the blend (mask applied). Masked results live in a shared scratch canvas.
+  resolveLayer: (layer: Layer): HTMLCanvasElement => resolveChannel(layer, 'color')!,
+
+  // Flatten one material channel of the layer tree (bottom -> top, groups recursively) into `ctx`.
+  // Shared by the viewport textures, merges and exports.
+  compose: (ctx: CanvasRenderingContext2D, layers: LayerNode[], channel: MaterialChannel = 'color') => {
+    ctx.save();
+    ctx.clearRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+    drawNodes(ctx, layers, 0, channel);
+    ctx.restore();
+  },
+
+  // Render the flattened tree into a new canvas
+  flatten: (layers: LayerNode[], channel: MaterialChannel = 'color'): HTMLCanvasElement => {
+    console.log(`[CompositeAPI] flatten(nodes=${layers.length}, channel=${channel})`);
+    const canvas = document.createElement('canvas');
+    canvas.width = TEXTURE_SIZE;
+    canvas.height = TEXTURE_SIZE;
+    CompositeAPI.compose(canvas.getContext('2d')!, layers, channel);
+    return canvas;
+  }
+};
@@ -0,0 +1,194 @@
+import * as THREE from 'three';
+import { BrushSettings, DynamicsCurve, DynamicsMapping, StrokeSample } from '../types';
+import { Easing, MathUtils } from './math';
+
+// Pointer speed (CSS px per ms) and stroke length (CSS px) that read as 1
+const VELOCITY_RANGE = 3;
+const DISTANCE_RANGE = 1000;
+// Share of each new speed reading kept, so uneven event timing does not spike the velocity
+const VELOCITY_SMOOTHING = 0.3;
+
+// Pen at rest: used for non-pen input when pressure is off, and for curve strokes
+export const RESTING_SAMPLE: StrokeSample = { pressure: 1, tilt: 0, twist: 0, velocity: 0, distance: 0 };
+
+export type EasingName = keyof typeof Easing;
+
+// Starting shapes for response curves, sampled from the easing functions
+export const CURVE_PRESETS: { label: string; easing: EasingName; from: number; to: number }[] = [
+  { label: 'Linear', easing: 'linear', from: 0, to: 1 },
+  { label: 'Soft (Ease In)', easing: 'quadIn', from: 0, to: 1 },
+  { label: 'Firm (Ease Out)', easing: 'quadOut', from: 0, to: 1 },
+  { label: 'S-Curve', easing: 'sineInOut', from: 0, to: 1 },
+  { label: 'Steep', easing: 'cubicIn', from: 0, to: 1 },
+  { label: 'Fast Rise', easing: 'expoOut', from: 0, to: 1 },
+  { label: 'Inverted', easing: 'linear', from: 1, to: 0 },
+  { label: 'Half Range', easing: 'linear', from: 0.5, to: 1 }
+];
+
+// Per-stroke pointer history that velocity and distance are measured from
+export interface StrokeTracker {
+  x: number;
+  y: number;
+  time: number;
+  distance: number;
+  velocity: number;
+}
+
+// Brush parameters for one stamp after dynamics
+export interface StampDynamics {
+  size: number;
+  opacity: number;
+  flow: number;
+  hardness: number;
+  rotation: number; // Degrees
+  jitter: number;   // Position scatter, relative to size
+  hueShift: number; // Turns of the hue wheel
+}
+
+// Uniform random draws behind the color offsets; kept for a whole stroke or redrawn per stamp
+export interface ColorRandoms {
+  hue: number;
+  saturation: number;
+  value: number;
+  mix: number;
+}
+
+type RGB = [number, number, number]; // 0-1
+
+const parseHex = (hex: string): RGB => {
+  const c = new THREE.Color();
+  c.setStyle(hex, THREE.NoColorSpace); // Stay in sRGB: jitter and mixing work on the picked values
+  return [c.r, c.g, c.b];
+};
+
+const toHex = ([r, g, b]: RGB): string => '#' + new THREE.Color(r, g, b).getHexString(THREE.NoColorSpace);
+
+const rgbToHsv = ([r, g, b]: RGB): RGB => {
+  const max = Math.max(r, g, b), min = Math.min(r, g, b), delta = max - min;
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = MathUtils.mod((g - b) / delta, 6);
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+  }
+  return [h / 6, max === 0 ? 0 : delta / max, max];
+};
+
+const hsvToRgb = ([h, s, v]: RGB): RGB => {
+  const f = (n: number) => {
+    const k = MathUtils.mod(n + h * 6, 6);
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return [f(5), f(3), f(1)];
+};
+
+export const DynamicsAPI = {
+  // Curve value at x, linear between control points and flat beyond the ends
+  evaluate: (curve: DynamicsCurve, x: number): number => {
+    if (curve.length === 0) return 1;
+    const t = MathUtils.clamp(x, 0, 1);
+    if (t <= curve[0].x) return curve[0].y;
+    for (let i = 1; i < curve.length; i++) {
+      const a = curve[i - 1], b = curve[i];
+      if (t <= b.x) return b.x === a.x ? b.y : MathUtils.lerp(a.y, b.y, MathUtils.inverseLerp(a.x, b.x, t));
+    }
+    return curve[curve.length - 1].y;
+  },
+
+  // Sample an easing function into an editable curve, remapped onto [from, to]
+  curveFromEasing: (name: EasingName, from: number = 0, to: number = 1, samples: number = 9): DynamicsCurve => {
+    const curve: DynamicsCurve = [];
+    for (let i = 0; i < samples; i++) {
+      const x = i / (samples - 1);
+      curve.push({ x, y: MathUtils.clamp(MathUtils.remap(Easing[name](x), 0, 1, from, to), 0, 1) });
+    }
+    return curve;
+  },
+
+  beginStroke: (e: PointerEvent): StrokeTracker => ({
+    x: e.clientX, y: e.clientY, time: e.timeStamp, distance: 0, velocity: 0
+  }),
+
+  // Read the pen state of a pointer event and advance the stroke tracker
+  sample: (tracker: StrokeTracker, e: PointerEvent, usePressure: boolean): StrokeSample => {
+    const step = Math.hypot(e.clientX - tracker.x, e.clientY - tracker.y);
+    const dt = e.timeStamp - tracker.time;
+    if (dt > 0) tracker.velocity = MathUtils.lerp(tracker.velocity, step / dt, VELOCITY_SMOOTHING);
+    tracker.distance += step;
+    tracker.x = e.clientX;
+    tracker.y = e.clientY;
+    tracker.time = e.timeStamp;
+
+    const motion = {
+      velocity: MathUtils.clamp(tracker.velocity / VELOCITY_RANGE, 0, 1),
+      distance: MathUtils.clamp(tracker.distance / DISTANCE_RANGE, 0, 1)
+    };
+    // Mice report no pressure (or 0.5 while pressed); they paint at full pressure
+    if (!usePressure || e.pointerType === 'mouse') return { ...RESTING_SAMPLE, ...motion };
+    return {
+      pressure: e.pressure || 1,
+      tilt: MathUtils.clamp(Math.hypot(e.tiltX || 0, e.tiltY || 0) / 90, 0, 1),
+      twist: MathUtils.mod(e.twist || 0, 360) / 360,
+      ...motion
+    };
+  },
+
+  // Brush parameters for one stamp. Random is drawn per call, so every stamp gets its own.
+  resolve: (brush: BrushSettings, sample: StrokeSample): StampDynamics => {
+    const d: StampDynamics = {
+      size: brush.size,
+      opacity: brush.opacity,
+      flow: brush.flow,
+      hardness: brush.hardness,
+      rotation: brush.rotation,
+      jitter: brush.positionJitter,
+      hueShift: 0
+    };
+    brush.dynamics.forEach((m: DynamicsMapping) => {
+      const input = m.input === 'random' ? Math.random() : sample[m.input];
+      const f = DynamicsAPI.evaluate(m.curve, input);
+      const scale = MathUtils.lerp(1, f, m.amount);
+      switch (m.target) {
+        case 'size': d.size *= scale; break;
+        case 'opacity': d.opacity *= scale; break;
+        case 'flow': d.flow *= scale; break;
+        case 'hardness': d.hardness *= scale; break;
+        case 'jitter': d.jitter *= scale; break;
+        case 'rotation': d.rotation += f * m.amount * 360; break;
+        case 'color': d.hueShift += f * m.amount; break;
+      }
+    });
+    return d;
+  },
+
+  colorRandoms: (): ColorRandoms => ({
+    hue: Math.random(), saturation: Math.random(), value: Math.random(), mix: Math.random()
+  }),
+
+  // Base color of one stamp: primary/secondary mix, then HSV jitter, then the dynamics hue shift
+  stampColor: (brush: BrushSettings, color: string, sample: StrokeSample, randoms: ColorRandoms, hueShift: number = 0): string => {
+    const jittered = brush.hueJitter > 0 || brush.saturationJitter > 0 || brush.valueJitter > 0;
+    if (brush.secondaryMix <= 0 && !jittered && hueShift === 0) return color;
+
+    let rgb = parseHex(color);
+    if (brush.secondaryMix > 0) {
+      const input = brush.secondaryMixInput;
+      const t = brush.secondaryMix * (input === 'none' ? 1 : input === 'random' ? randoms.mix : sample[input]);
+      const secondary = parseHex(brush.secondaryColor);
+      rgb = [0, 1, 2].map(i => MathUtils.lerp(rgb[i], secondary[i], t)) as RGB;
+    }
+
+    const [h, sat, v] = rgbToHsv(rgb);
+    const signed = (r: number) => r * 2 - 1;
+    return toHex(hsvToRgb([
+      MathUtils.mod(h + signed(randoms.hue) * brush.hueJitter * 0.5 + hueShift, 1),
+      MathUtils.clamp(sat + signed(randoms.saturation) * brush.saturationJitter, 0, 1),
+      MathUtils.clamp(v + signed(randoms.value) * brush.valueJitter, 0, 1)
+    ]));
+  },
+
+  shiftHue: (color: string, turns: number): string => {
+    if (turns === 0) return color;
+    return '#' + new THREE.Color(color).offsetHSL(turns, 0, 0).getHexString();
+  }
+};
@@ -34,12 +34,16 @@ export const Events = {
   CMD_CURVE_STROKE: 'cmd_curve_stroke',
   CMD_CURVE_FILL: 'cmd_curve_fill',
   CMD_CURVE_CLEAR: 'cmd_curve_clear',
+  CMD_SET_CAMERA: 'cmd_set_camera',
+  CMD_STENCIL_RESET: 'cmd_stencil_reset', // { scope: 'row' | 'col' | 'grid' }
   
   // Requests (Logic -> Scene)
   REQ_BAKE_PROJECTION: 'req_bake_projection',
   
   // Updates (State/Scene -> UI/Renderer)
   REFRESH_COMPOSITE: 'refresh_composite',
+  CAMERA_CHANGED: 'camera_changed',
+  HISTORY_CHANGED: 'history_changed',
 
   // Paint Actions (Bridging UI/User Input to Logic)
   PAINT_START: 'paint_start',
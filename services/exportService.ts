@@ -0,0 +1,195 @@
+import * as THREE from 'three';
+import { ExportSettings, LayerNode } from '../types';
+import { CompositeAPI } from './compositeService';
+import { FileAPI } from './fileService';
+import { LayerAPI } from './layerService';
+
+export const EXPORT_RESOLUTIONS = [512, 1024, 2048, 4096];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  resolution: 2048,
+  padding: 8,
+  composite: true,
+  layers: false
+};
+
+const MIME_TYPES: Record<ExportSettings['format'], string> = {
+  png: 'image/png',
+  webp: 'image/webp',
+  tga: 'image/x-tga'
+};
+
+const createCanvas = (size: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  return canvas;
+};
+
+// Rasterize the mesh UV layout: 255 where a texel is covered by a triangle, 0 in the gutter.
+const rasterizeUVMask = (geometry: THREE.BufferGeometry, size: number): Uint8Array | null => {
+  const uv = geometry.attributes.uv;
+  if (!uv) return null;
+  const index = geometry.index;
+  const count = index ? index.count : uv.count;
+
+  const canvas = createCanvas(size);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 1;
+  // Triangles are filled one at a time: a single path would let overlapping
+  // (mirrored) islands with opposite winding cancel each other out.
+  for (let i = 0; i + 2 < count; i += 3) {
+    ctx.beginPath();
+    for (let k = 0; k < 3; k++) {
+      const v = index ? index.getX(i + k) : i + k;
+      // Texture space has V pointing up; canvas rows go down
+      const x = uv.getX(v) * size;
+      const y = (1 - uv.getY(v)) * size;
+      if (k === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+    }
+    ctx.closePath();
+    // Stroking as well as filling grows islands by half a texel so bilinear taps at the border stay inside
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  const data = ctx.getImageData(0, 0, size, size).data;
+  const mask = new Uint8Array(size * size);
+  for (let i = 0; i < mask.length; i++) mask[i] = data[i * 4 + 3] > 0 ? 255 : 0;
+  return mask;
+};
+
+// Grow the colors at the edge of the covered area outwards by `iterations` texels.
+// Each pass fills uncovered texels from the average of their covered 8-neighbours,
+// so mipmapping/filtering never samples the gutter color across a UV seam.
+const dilate = (image: ImageData, covered: Uint8Array, iterations: number) => {
+  const { width, height, data } = image;
+  let frontier: number[] = [];
+  for (let i = 0; i < covered.length; i++) {
+    if (covered[i]) continue;
+    const x = i % width, y = (i / width) | 0;
+    if ((x > 0 && covered[i - 1]) || (x < width - 1 && covered[i + 1]) ||
+        (y > 0 && covered[i - width]) || (y < height - 1 && covered[i + width])) {
+      frontier.push(i);
+    }
+  }
+
+  for (let pass = 0; pass < iterations && frontier.length > 0; pass++) {
+    const filled: number[] = [];
+    for (const i of frontier) {
+      if (covered[i]) continue;
+      const x = i % width, y = (i / width) | 0;
+      let r = 0, g = 0, b = 0, a = 0, n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if ((dx === 0 && dy === 0) || nx < 0 || nx >= width) continue;
+          const j = ny * width + nx;
+          if (!covered[j]) continue;
+          const o = j * 4;
+          r += data[o]; g += data[o + 1]; b += data[o + 2]; a += data[o + 3];
+          n++;
+        }
+      }
+      if (n === 0) continue;
+      const o = i * 4;
+      data[o] = r / n; data[o + 1] = g / n; data[o + 2] = b / n; data[o + 3] = a / n;
+      filled.push(i);
+    }
+
+    // Mark after the pass so every texel of a ring reads only from the previous ring
+    const next: number[] = [];
+    for (const i of filled) covered[i] = 255;
+    for (const i of filled) {
+      const x = i % width, y = (i / width) | 0;
+      if (x > 0 && !covered[i - 1]) next.push(i - 1);
+      if (x < width - 1 && !covered[i + 1]) next.push(i + 1);
+      if (y > 0 && !covered[i - width]) next.push(i - width);
+      if (y < height - 1 && !covered[i + width]) next.push(i + width);
+    }
+    frontier = next;
+  }
+};
+
+// Uncompressed 32-bit TGA, top-left origin
+const encodeTGA = (image: ImageData): Blob => {
+  const { width, height, data } = image;
+  const bytes = new Uint8Array(18 + width * height * 4);
+  bytes[2] = 2; // Uncompressed true-color
+  bytes[12] = width & 0xff; bytes[13] = width >> 8;
+  bytes[14] = height & 0xff; bytes[15] = height >> 8;
+  bytes[16] = 32; // Bits per pixel
+  bytes[17] = 0x28; // 8 alpha bits, top-left origin
+  for (let i = 0, o = 18; i < data.length; i += 4, o += 4) {
+    bytes[o] = data[i + 2];
+    bytes[o + 1] = data[i + 1];
+    bytes[o + 2] = data[i];
+    bytes[o + 3] = data[i + 3];
+  }
+  return new Blob([bytes], { type: MIME_TYPES.tga });
+};
+
+const encode = (canvas: HTMLCanvasElement, format: ExportSettings['format']): Promise<Blob> => {
+  if (format === 'tga') {
+    return Promise.resolve(encodeTGA(canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height)));
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error(`[ExportAPI] Failed to encode ${format}.`)),
+      MIME_TYPES[format],
+      0.95
+    );
+  });
+};
+
+const sanitizeFileName = (name: string) => name.replace(/[^a-z0-9_\-]+/gi, '_').replace(/^_+|_+$/g, '') || 'texture';
+
+export const ExportAPI = {
+  // Resample a texture-sized canvas to the output resolution and pad its UV islands
+  prepare: (source: HTMLCanvasElement, settings: ExportSettings, uvMask: Uint8Array | null): HTMLCanvasElement => {
+    const out = createCanvas(settings.resolution);
+    const ctx = out.getContext('2d')!;
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, settings.resolution, settings.resolution);
+
+    if (settings.padding > 0) {
+      const image = ctx.getImageData(0, 0, out.width, out.height);
+      // Without a UV layout fall back to treating any painted texel as covered
+      const covered = uvMask
+        ? uvMask.slice()
+        : Uint8Array.from({ length: out.width * out.height }, (_, i) => image.data[i * 4 + 3] > 0 ? 255 : 0);
+      dilate(image, covered, settings.padding);
+      ctx.putImageData(image, 0, 0);
+    }
+    return out;
+  },
+
+  // Download the flattened texture and/or each layer (with its mask applied) as separate image files
+  exportTextures: async (layers: LayerNode[], geometry: THREE.BufferGeometry, settings: ExportSettings, baseName: string) => {
+    console.log(`[ExportAPI] exportTextures(format=${settings.format}, resolution=${settings.resolution}, padding=${settings.padding})`);
+    const uvMask = settings.padding > 0 ? rasterizeUVMask(geometry, settings.resolution) : null;
+    const base = sanitizeFileName(baseName);
+    const ext = settings.format;
+
+    if (settings.composite) {
+      const canvas = ExportAPI.prepare(CompositeAPI.flatten(layers), settings, uvMask);
+      FileAPI.download(await encode(canvas, settings.format), `${base}_composite.${ext}`);
+    }
+
+    if (settings.layers) {
+      const paintLayers = LayerAPI.getLayers(layers);
+      for (let i = 0; i < paintLayers.length; i++) {
+        const layer = paintLayers[i];
+        const canvas = ExportAPI.prepare(CompositeAPI.resolveLayer(layer), settings, uvMask);
+        const index = String(i).padStart(2, '0');
+        FileAPI.download(await encode(canvas, settings.format), `${base}_${index}_${sanitizeFileName(layer.name)}.${ext}`);
+      }
+    }
+  }
+};
@@ -0,0 +1,25 @@
+export const FileAPI = {
+  // Trigger a browser download for an in-memory file
+  download: (blob: Blob, fileName: string) => {
+    console.log(`[FileAPI] download(fileName=${fileName}, size=${blob.size})`);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    // Give the browser a tick to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  },
+
+  loadImage: (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.crossOrigin = "Anonymous";
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error(`[FileAPI] Failed to load image.`));
+      img.src = src;
+    });
+  }
+};
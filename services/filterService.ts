@@ -0,0 +1,84 @@
+// Small-image filters for the sampling brush tools. Images are filtered with premultiplied alpha
+// so transparent pixels do not bleed dark fringes into their neighbours.
+
+const premultiply = (data: Uint8ClampedArray): Float32Array => {
+  const out = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3] / 255;
+    out[i] = data[i] * a;
+    out[i + 1] = data[i + 1] * a;
+    out[i + 2] = data[i + 2] * a;
+    out[i + 3] = data[i + 3];
+  }
+  return out;
+};
+
+const unpremultiply = (src: Float32Array, out: Uint8ClampedArray) => {
+  for (let i = 0; i < src.length; i += 4) {
+    const a = src[i + 3];
+    const inv = a > 0 ? 255 / a : 0;
+    out[i] = src[i] * inv;
+    out[i + 1] = src[i + 1] * inv;
+    out[i + 2] = src[i + 2] * inv;
+    out[i + 3] = a;
+  }
+};
+
+// One box-blur pass along rows or columns, clamping at the image edge
+const boxPass = (src: Float32Array, dst: Float32Array, width: number, height: number, radius: number, horizontal: boolean) => {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const stride = horizontal ? 4 : width * 4;
+  const norm = 1 / (radius * 2 + 1);
+  for (let line = 0; line < lines; line++) {
+    const base = horizontal ? line * width * 4 : line * 4;
+    for (let c = 0; c < 4; c++) {
+      const at = (k: number) => src[base + Math.min(length - 1, Math.max(0, k)) * stride + c];
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) sum += at(k);
+      for (let k = 0; k < length; k++) {
+        dst[base + k * stride + c] = sum * norm;
+        sum += at(k + radius + 1) - at(k - radius);
+      }
+    }
+  }
+};
+
+// Two box passes per axis: close enough to a gaussian for brush work
+const blurPremultiplied = (image: ImageData, radius: number): Float32Array => {
+  const { width, height } = image;
+  const a = premultiply(image.data);
+  const b = new Float32Array(a.length);
+  const r = Math.max(1, Math.round(radius));
+  for (let pass = 0; pass < 2; pass++) {
+    boxPass(a, b, width, height, r, true);
+    boxPass(b, a, width, height, r, false);
+  }
+  return a;
+};
+
+export const FilterAPI = {
+  blur: (image: ImageData, radius: number): ImageData => {
+    const blurred = blurPremultiplied(image, radius);
+    const out = new ImageData(image.width, image.height);
+    unpremultiply(blurred, out.data);
+    return out;
+  },
+
+  // Unsharp mask: push every pixel away from its blurred surroundings by `amount`
+  sharpen: (image: ImageData, radius: number, amount: number): ImageData => {
+    const original = premultiply(image.data);
+    const blurred = blurPremultiplied(image, radius);
+    for (let i = 0; i < original.length; i += 4) {
+      const a = original[i + 3];
+      for (let c = 0; c < 3; c++) {
+        // Keep premultiplied color within [0, alpha]
+        blurred[i + c] = Math.min(a, Math.max(0, original[i + c] + (original[i + c] - blurred[i + c]) * amount));
+      }
+      blurred[i + 3] = a;
+    }
+    const out = new ImageData(image.width, image.height);
+    unpremultiply(blurred, out.data);
+    return out;
+  }
+};
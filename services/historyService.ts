@@ -0,0 +1,252 @@
+import { v4 as uuidv4 } from 'uuid';
+import { HistoryEntry, HistoryState, PaintSurface } from '../types';
+import { TEXTURE_SIZE } from '../constants';
+import { eventBus, Events } from './eventBus';
+
+// Pixel edits are stored as before/after copies of the 128x128 tiles they touched,
+// so a small stroke on a 2048² layer costs kilobytes instead of a full 16MB snapshot.
+const TILE_SIZE = 128;
+const TILES_PER_ROW = Math.ceil(TEXTURE_SIZE / TILE_SIZE);
+const DEFAULT_BUDGET_BYTES = 512 * 1024 * 1024;
+const MAX_ENTRIES = 200;
+
+interface PixelTile {
+  x: number;
+  y: number;
+  before: ImageData;
+  after: ImageData;
+}
+
+interface SurfaceRecording {
+  surface: PaintSurface;
+  snapshot: HTMLCanvasElement;
+  dirty: Set<number>; // Tile indices (ty * TILES_PER_ROW + tx)
+}
+
+interface PixelRecording {
+  label: string;
+  surfaces: SurfaceRecording[];
+}
+
+const tilesEqual = (a: ImageData, b: ImageData) => {
+  const va = new Uint32Array(a.data.buffer);
+  const vb = new Uint32Array(b.data.buffer);
+  for (let i = 0; i < va.length; i++) {
+    if (va[i] !== vb[i]) return false;
+  }
+  return true;
+};
+
+class HistoryManager {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private usedBytes = 0;
+  private budgetBytes = DEFAULT_BUDGET_BYTES;
+  private recording: PixelRecording | null = null;
+  private snapshotCanvases: HTMLCanvasElement[] = [];
+  private batchEntries: HistoryEntry[] | null = null;
+
+  // ------------------------------------------------------------------
+  // STACK
+  // ------------------------------------------------------------------
+  push(entry: Omit<HistoryEntry, 'id'>) {
+    const full = { ...entry, id: uuidv4() };
+    if (this.batchEntries) {
+      this.batchEntries.push(full);
+      return;
+    }
+
+    this.redoStack.forEach(e => this.usedBytes -= e.bytes);
+    this.redoStack = [];
+
+    this.undoStack.push(full);
+    this.usedBytes += full.bytes;
+    this.enforceBudget();
+    this.notify();
+  }
+
+  // Record a value change that is applied through a setter (layer stack, stencil rig, curve...)
+  pushState<T>(label: string, before: T, after: T, apply: (value: T) => void, bytes: number = 0) {
+    this.push({ label, bytes, undo: () => apply(before), redo: () => apply(after) });
+  }
+
+  // Run `fn` and collapse every entry it pushes into a single step
+  batch(label: string, fn: () => void) {
+    if (this.batchEntries) { fn(); return; } // Nested: join the outer batch
+    const entries: HistoryEntry[] = [];
+    this.batchEntries = entries;
+    try {
+      fn();
+    } finally {
+      this.batchEntries = null;
+    }
+    if (entries.length === 0) return;
+    this.push({
+      label,
+      bytes: entries.reduce((sum, e) => sum + e.bytes, 0),
+      undo: () => [...entries].reverse().forEach(e => e.undo()),
+      redo: () => entries.forEach(e => e.redo())
+    });
+  }
+
+  undo() {
+    if (this.recording) return; // Never rewind underneath an active stroke
+    const entry = this.undoStack.pop();
+    if (!entry) return;
+    console.log(`[History] undo('${entry.label}')`);
+    entry.undo();
+    this.redoStack.push(entry);
+    this.notify();
+  }
+
+  redo() {
+    if (this.recording) return;
+    const entry = this.redoStack.pop();
+    if (!entry) return;
+    console.log(`[History] redo('${entry.label}')`);
+    entry.redo();
+    this.undoStack.push(entry);
+    this.notify();
+  }
+
+  // Undo/redo until exactly `index` entries are applied
+  jumpTo(index: number) {
+    while (this.undoStack.length > index && this.undoStack.length > 0) this.undo();
+    while (this.undoStack.length < index && this.redoStack.length > 0) this.redo();
+  }
+
+  canUndo() { return this.undoStack.length > 0; }
+  canRedo() { return this.redoStack.length > 0; }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.usedBytes = 0;
+    this.recording = null;
+    this.notify();
+  }
+
+  setBudget(bytes: number) {
+    this.budgetBytes = bytes;
+    this.enforceBudget();
+    this.notify();
+  }
+
+  getState(): HistoryState {
+    const entries = [...this.undoStack, ...[...this.redoStack].reverse()];
+    return {
+      entries: entries.map(e => ({ id: e.id, label: e.label })),
+      index: this.undoStack.length,
+      usedBytes: this.usedBytes,
+      budgetBytes: this.budgetBytes
+    };
+  }
+
+  private enforceBudget() {
+    // Oldest entries go first; always keep the most recent one
+    while (this.undoStack.length > 1 && (this.usedBytes > this.budgetBytes || this.undoStack.length + this.redoStack.length > MAX_ENTRIES)) {
+      const dropped = this.undoStack.shift()!;
+      this.usedBytes -= dropped.bytes;
+    }
+  }
+
+  private notify() {
+    eventBus.emit(Events.HISTORY_CHANGED, this.getState());
+  }
+
+  // ------------------------------------------------------------------
+  // PIXEL RECORDING
+  // ------------------------------------------------------------------
+  // Snapshot the surfaces so tiles touched until endPixels() can be diffed.
+  // A multi-channel stroke records all of its surfaces as one entry.
+  beginPixels(surfaces: PaintSurface | PaintSurface[], label: string) {
+    if (this.recording) this.endPixels();
+
+    const list = Array.isArray(surfaces) ? surfaces : [surfaces];
+    this.recording = {
+      label,
+      surfaces: list.map((surface, i) => {
+        if (!this.snapshotCanvases[i]) {
+          const canvas = document.createElement('canvas');
+          canvas.width = TEXTURE_SIZE;
+          canvas.height = TEXTURE_SIZE;
+          this.snapshotCanvases[i] = canvas;
+        }
+        const snapshot = this.snapshotCanvases[i];
+        const snapCtx = snapshot.getContext('2d')!;
+        snapCtx.clearRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+        snapCtx.drawImage(surface.canvas, 0, 0);
+        return { surface, snapshot, dirty: new Set<number>() };
+      })
+    };
+  }
+
+  // Called by the brush engine for every stamp; ignored unless `canvas` is being recorded
+  markDirty(canvas: HTMLCanvasElement, x: number, y: number, radius: number) {
+    this.markDirtyRect(canvas, x - radius, y - radius, x + radius, y + radius);
+  }
+
+  // Same for an axis-aligned texel rectangle (inclusive bounds)
+  markDirtyRect(canvas: HTMLCanvasElement, x0: number, y0: number, x1: number, y1: number) {
+    const rec = this.recording?.surfaces.find(r => r.surface.canvas === canvas);
+    if (!rec) return;
+
+    const tx0 = Math.max(0, Math.floor(x0 / TILE_SIZE));
+    const ty0 = Math.max(0, Math.floor(y0 / TILE_SIZE));
+    const tx1 = Math.min(TILES_PER_ROW - 1, Math.floor(x1 / TILE_SIZE));
+    const ty1 = Math.min(TILES_PER_ROW - 1, Math.floor(y1 / TILE_SIZE));
+    for (let ty = ty0; ty <= ty1; ty++) {
+      for (let tx = tx0; tx <= tx1; tx++) rec.dirty.add(ty * TILES_PER_ROW + tx);
+    }
+  }
+
+  markAllDirty() {
+    this.recording?.surfaces.forEach(rec => {
+      for (let i = 0; i < TILES_PER_ROW * TILES_PER_ROW; i++) rec.dirty.add(i);
+    });
+  }
+
+  endPixels() {
+    const recording = this.recording;
+    this.recording = null;
+    if (!recording) return;
+
+    const changes: { surface: PaintSurface; tiles: PixelTile[] }[] = [];
+    recording.surfaces.forEach(rec => {
+      const snapCtx = rec.snapshot.getContext('2d')!;
+      const tiles: PixelTile[] = [];
+      rec.dirty.forEach(idx => {
+        const x = (idx % TILES_PER_ROW) * TILE_SIZE;
+        const y = Math.floor(idx / TILES_PER_ROW) * TILE_SIZE;
+        const w = Math.min(TILE_SIZE, TEXTURE_SIZE - x);
+        const h = Math.min(TILE_SIZE, TEXTURE_SIZE - y);
+        const before = snapCtx.getImageData(x, y, w, h);
+        const after = rec.surface.ctx.getImageData(x, y, w, h);
+        if (!tilesEqual(before, after)) tiles.push({ x, y, before, after });
+      });
+      if (tiles.length > 0) changes.push({ surface: rec.surface, tiles });
+    });
+    if (changes.length === 0) return;
+
+    const apply = (which: 'before' | 'after') => {
+      changes.forEach(({ surface, tiles }) => tiles.forEach(t => surface.ctx.putImageData(t[which], t.x, t.y)));
+      eventBus.emit(Events.REFRESH_COMPOSITE);
+    };
+    this.push({
+      label: recording.label,
+      bytes: changes.reduce((sum, c) => sum + c.tiles.reduce((s, t) => s + t.before.data.length + t.after.data.length, 0), 0),
+      undo: () => apply('before'),
+      redo: () => apply('after')
+    });
+  }
+
+  // Record a synchronous whole-surface edit (fill, texture, projection...)
+  recordPixels(surfaces: PaintSurface | PaintSurface[], label: string, mutate: () => void) {
+    this.beginPixels(surfaces, label);
+    mutate();
+    this.markAllDirty();
+    this.endPixels();
+  }
+}
+
+export const history = new HistoryManager();
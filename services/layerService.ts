@@ -1,6 +1,92 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Layer } from '../types';
+import { Layer, LayerGroup, LayerNode, PaintSurface, PaintTarget, MaterialChannel, DataChannel } from '../types';
 import { TEXTURE_SIZE } from '../constants';
+import { CompositeAPI } from './compositeService';
+
+const createSurface = (): PaintSurface => {
+  const canvas = document.createElement('canvas');
+  canvas.width = TEXTURE_SIZE;
+  canvas.height = TEXTURE_SIZE;
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+// ------------------------------------------------------------------
+// TREE HELPERS
+// ------------------------------------------------------------------
+// The layer tree is immutable: edits rebuild only the path to the changed node.
+
+// Replace (or remove, when `fn` returns null) the node with `id` anywhere in the tree
+const updateNode = (nodes: LayerNode[], id: string, fn: (node: LayerNode) => LayerNode | null): LayerNode[] => {
+  let changed = false;
+  const next: LayerNode[] = [];
+  for (const node of nodes) {
+    if (node.id === id) {
+      changed = true;
+      const result = fn(node);
+      if (result) next.push(result);
+    } else if ('children' in node) {
+      const children = updateNode(node.children, id, fn);
+      if (children !== node.children) {
+        changed = true;
+        next.push({ ...node, children });
+      } else {
+        next.push(node);
+      }
+    } else {
+      next.push(node);
+    }
+  }
+  return changed ? next : nodes;
+};
+
+// Sibling list, index and parent group (null = root) of a node
+const locate = (nodes: LayerNode[], id: string, parentId: string | null = null): { siblings: LayerNode[]; index: number; parentId: string | null } | null => {
+  const index = nodes.findIndex(n => n.id === id);
+  if (index !== -1) return { siblings: nodes, index, parentId };
+  for (const node of nodes) {
+    if ('children' in node) {
+      const found = locate(node.children, id, node.id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+const updateSiblings = (nodes: LayerNode[], parentId: string | null, fn: (siblings: LayerNode[]) => LayerNode[]): LayerNode[] => {
+  if (parentId === null) return fn(nodes);
+  return updateNode(nodes, parentId, g => ({ ...g, children: fn((g as LayerGroup).children) }));
+};
+
+// Data channels carried by any layer in `nodes`
+const usedChannels = (nodes: LayerNode[]): DataChannel[] => {
+  const used = new Set<DataChannel>();
+  LayerAPI.getLayers(nodes).forEach(l => (Object.keys(l.channels) as DataChannel[]).forEach(c => used.add(c)));
+  return [...used];
+};
+
+// Compose every channel used by `nodes` into `target`
+const composeChannels = (target: Layer, nodes: LayerNode[]) => {
+  CompositeAPI.compose(target.ctx, nodes);
+  usedChannels(nodes).forEach(c => CompositeAPI.compose(LayerAPI.ensureChannel(target, c).ctx, nodes, c));
+};
+
+// Deep copy with fresh ids and canvases
+const cloneNode = (node: LayerNode): LayerNode => {
+  if ('children' in node) {
+    return { ...node, id: uuidv4(), children: node.children.map(cloneNode) };
+  }
+  const copy = LayerAPI.create(node.name);
+  copy.ctx.drawImage(node.canvas, 0, 0);
+  let mask: PaintSurface | null = null;
+  if (node.mask) {
+    mask = createSurface();
+    mask.ctx.drawImage(node.mask.canvas, 0, 0);
+  }
+  (Object.keys(node.channels) as DataChannel[]).forEach(c => {
+    LayerAPI.ensureChannel(copy, c).ctx.drawImage(node.channels[c]!.canvas, 0, 0);
+  });
+  return { ...copy, visible: node.visible, opacity: node.opacity, blendMode: node.blendMode, mask, clipped: node.clipped, lockAlpha: node.lockAlpha };
+};
 
 export const LayerAPI = {
   create: (name: string): Layer => {
@@ -16,11 +102,47 @@ export const LayerAPI = {
       name,
       visible: true,
       opacity: 1,
+      blendMode: 'normal',
       canvas,
-      ctx
+      ctx,
+      mask: null,
+      channels: {},
+      clipped: false,
+      lockAlpha: false
     };
   },
 
+  // Where brush strokes for `target` land on this layer (falls back to color without a mask)
+  getSurface: (layer: Layer, target: PaintTarget): PaintSurface => {
+    return target === 'mask' && layer.mask ? layer.mask : layer;
+  },
+
+  getChannel: (layer: Layer, channel: MaterialChannel): PaintSurface | null => {
+    return channel === 'color' ? layer : layer.channels[channel] ?? null;
+  },
+
+  // Channel surfaces are allocated on first use. An empty surface composites to nothing,
+  // so attaching one in place is invisible and needs no history step.
+  ensureChannel: (layer: Layer, channel: MaterialChannel): PaintSurface => {
+    if (channel === 'color') return layer;
+    if (!layer.channels[channel]) {
+      console.log(`[LayerAPI] ensureChannel(layer=${layer.name}, channel=${channel})`);
+      layer.channels[channel] = createSurface();
+    }
+    return layer.channels[channel]!;
+  },
+
+  // Every pixel surface of a layer except its mask (base color first)
+  getChannelSurfaces: (layer: Layer): PaintSurface[] => {
+    return [layer, ...Object.values(layer.channels) as PaintSurface[]];
+  },
+
+  // Surfaces a brush stroke writes to: the mask, or the chosen channels of the layer
+  getPaintSurfaces: (layer: Layer, target: PaintTarget, channels: MaterialChannel[]): PaintSurface[] => {
+    if (target === 'mask' && layer.mask) return [layer.mask];
+    return channels.map(c => LayerAPI.ensureChannel(layer, c));
+  },
+
   fill: (layer: Layer, color: string) => {
     console.log(`[LayerAPI] fill(layer=${layer.name}, color=${color})`);
     layer.ctx.save();
@@ -41,34 +163,306 @@ export const LayerAPI = {
     layer.ctx.drawImage(image, 0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
   },
 
-  toggleVisibility: (layers: Layer[], id: string): Layer[] => {
-    console.log(`[LayerAPI] toggleVisibility(id=${id})`);
-    return layers.map(l => l.id === id ? { ...l, visible: !l.visible } : l);
+  // ------------------------------------------------------------------
+  // TREE QUERIES
+  // ------------------------------------------------------------------
+  isGroup: (node: LayerNode): node is LayerGroup => 'children' in node,
+
+  findNode: (nodes: LayerNode[], id: string): LayerNode | undefined => {
+    for (const node of nodes) {
+      if (node.id === id) return node;
+      if (LayerAPI.isGroup(node)) {
+        const found = LayerAPI.findNode(node.children, id);
+        if (found) return found;
+      }
+    }
+    return undefined;
   },
 
-  remove: (layers: Layer[], id: string): Layer[] => {
-    console.log(`[LayerAPI] remove(id=${id})`);
-    if (layers.length <= 1) return layers;
-    return layers.filter(l => l.id !== id);
+  // Paint layer by id (undefined for groups)
+  findLayer: (nodes: LayerNode[], id: string): Layer | undefined => {
+    const node = LayerAPI.findNode(nodes, id);
+    return node && !LayerAPI.isGroup(node) ? node : undefined;
+  },
+
+  locate: (nodes: LayerNode[], id: string) => locate(nodes, id),
+
+  // Every paint layer in the tree, bottom -> top
+  getLayers: (nodes: LayerNode[]): Layer[] => {
+    return nodes.flatMap(n => LayerAPI.isGroup(n) ? LayerAPI.getLayers(n.children) : [n]);
+  },
+
+  // ------------------------------------------------------------------
+  // NODE PROPERTIES (layers and groups)
+  // ------------------------------------------------------------------
+  toggleVisibility: (layers: LayerNode[], id: string): LayerNode[] => {
+    console.log(`[LayerAPI] toggleVisibility(id=${id})`);
+    return updateNode(layers, id, n => ({ ...n, visible: !n.visible }));
   },
 
-  rename: (layers: Layer[], id: string, name: string): Layer[] => {
+  rename: (layers: LayerNode[], id: string, name: string): LayerNode[] => {
     console.log(`[LayerAPI] rename(id=${id}, name=${name})`);
-    return layers.map(l => l.id === id ? { ...l, name } : l);
+    return updateNode(layers, id, n => ({ ...n, name }));
   },
 
-  reorder: (layers: Layer[], id: string, direction: 'up' | 'down'): Layer[] => {
-    console.log(`[LayerAPI] reorder(id=${id}, direction=${direction})`);
-    const index = layers.findIndex(l => l.id === id);
-    if (index === -1) return layers;
+  // Not logged: runs on every slider tick
+  setOpacity: (layers: LayerNode[], id: string, opacity: number): LayerNode[] => {
+    return updateNode(layers, id, n => ({ ...n, opacity: Math.max(0, Math.min(1, opacity)) }));
+  },
+
+  // 'pass-through' only applies to groups; layers fall back to normal
+  setBlendMode: (layers: LayerNode[], id: string, blendMode: LayerGroup['blendMode']): LayerNode[] => {
+    console.log(`[LayerAPI] setBlendMode(id=${id}, blendMode=${blendMode})`);
+    return updateNode(layers, id, n => LayerAPI.isGroup(n)
+      ? { ...n, blendMode }
+      : { ...n, blendMode: blendMode === 'pass-through' ? 'normal' : blendMode });
+  },
+
+  toggleClipped: (layers: LayerNode[], id: string): LayerNode[] => {
+    console.log(`[LayerAPI] toggleClipped(id=${id})`);
+    return updateNode(layers, id, n => LayerAPI.isGroup(n) ? n : { ...n, clipped: !n.clipped });
+  },
 
-    const newLayers = [...layers];
+  toggleLockAlpha: (layers: LayerNode[], id: string): LayerNode[] => {
+    console.log(`[LayerAPI] toggleLockAlpha(id=${id})`);
+    return updateNode(layers, id, n => LayerAPI.isGroup(n) ? n : { ...n, lockAlpha: !n.lockAlpha });
+  },
+
+  toggleCollapsed: (layers: LayerNode[], id: string): LayerNode[] => {
+    return updateNode(layers, id, n => LayerAPI.isGroup(n) ? { ...n, collapsed: !n.collapsed } : n);
+  },
+
+  // ------------------------------------------------------------------
+  // STRUCTURE
+  // ------------------------------------------------------------------
+  // Place a node above `anchorId` (or at the top of the anchor if it is a group).
+  // Without an anchor the node goes to the top of the root.
+  insert: (layers: LayerNode[], node: LayerNode, anchorId?: string): LayerNode[] => {
+    const anchor = anchorId ? LayerAPI.findNode(layers, anchorId) : undefined;
+    if (!anchor) return [...layers, node];
+    if (LayerAPI.isGroup(anchor)) {
+      return updateNode(layers, anchor.id, g => ({ ...g, children: [...(g as LayerGroup).children, node] }));
+    }
+    return LayerAPI.move([...layers, node], node.id, anchor.id, 'above');
+  },
+
+  // Remove a layer or group. The tree always keeps at least one paint layer.
+  remove: (layers: LayerNode[], id: string): LayerNode[] => {
+    console.log(`[LayerAPI] remove(id=${id})`);
+    const next = updateNode(layers, id, () => null);
+    return LayerAPI.getLayers(next).length === 0 ? layers : next;
+  },
+
+  // Swap with the neighbouring sibling
+  reorder: (layers: LayerNode[], id: string, direction: 'up' | 'down'): LayerNode[] => {
+    console.log(`[LayerAPI] reorder(id=${id}, direction=${direction})`);
+    const loc = locate(layers, id);
+    if (!loc) return layers;
+    const { siblings, index } = loc;
     // Up means index + 1 (towards end of array/top of stack)
-    if (direction === 'up' && index < layers.length - 1) {
-       [newLayers[index], newLayers[index + 1]] = [newLayers[index + 1], newLayers[index]];
-    } else if (direction === 'down' && index > 0) {
-       [newLayers[index], newLayers[index - 1]] = [newLayers[index - 1], newLayers[index]];
+    const target = direction === 'up' ? index + 1 : index - 1;
+    if (target < 0 || target >= siblings.length) return layers;
+
+    return updateSiblings(layers, loc.parentId, children => {
+      const next = [...children];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  },
+
+  // Drag and drop: put `id` above/below `targetId` in the target's parent, or inside a target group (on top)
+  move: (layers: LayerNode[], id: string, targetId: string, position: 'above' | 'below' | 'inside'): LayerNode[] => {
+    console.log(`[LayerAPI] move(id=${id}, target=${targetId}, position=${position})`);
+    const node = LayerAPI.findNode(layers, id);
+    if (!node || id === targetId) return layers;
+    // A group cannot be dropped into itself or its descendants
+    if (LayerAPI.isGroup(node) && LayerAPI.findNode(node.children, targetId)) return layers;
+
+    const without = updateNode(layers, id, () => null);
+    const target = LayerAPI.findNode(without, targetId);
+    if (!target) return layers;
+
+    if (position === 'inside') {
+      if (!LayerAPI.isGroup(target)) return layers;
+      return updateNode(without, targetId, g => ({ ...g, children: [...(g as LayerGroup).children, node] }));
+    }
+    const loc = locate(without, targetId)!;
+    return updateSiblings(without, loc.parentId, children => {
+      const next = [...children];
+      next.splice(position === 'above' ? loc.index + 1 : loc.index, 0, node);
+      return next;
+    });
+  },
+
+  createGroup: (name: string, children: LayerNode[] = []): LayerGroup => {
+    console.log(`[LayerAPI] createGroup('${name}')`);
+    return { id: uuidv4(), name, visible: true, opacity: 1, blendMode: 'pass-through', collapsed: false, children };
+  },
+
+  // Wrap a node in a new group at its current position
+  group: (layers: LayerNode[], id: string, name: string): LayerNode[] => {
+    console.log(`[LayerAPI] group(id=${id})`);
+    return updateNode(layers, id, n => LayerAPI.createGroup(name, [n]));
+  },
+
+  // Replace a group with its children
+  ungroup: (layers: LayerNode[], id: string): LayerNode[] => {
+    console.log(`[LayerAPI] ungroup(id=${id})`);
+    const loc = locate(layers, id);
+    const group = loc?.siblings[loc.index];
+    if (!loc || !group || !LayerAPI.isGroup(group)) return layers;
+    return updateSiblings(layers, loc.parentId, children => {
+      const next = [...children];
+      next.splice(loc.index, 1, ...group.children);
+      return next;
+    });
+  },
+
+  // ------------------------------------------------------------------
+  // PIXEL OPERATIONS
+  // ------------------------------------------------------------------
+  // Operations below never touch existing canvases; they build new layers so the
+  // previous stack stays intact for undo.
+
+  // Copy a layer or group (pixels, masks and properties) directly above the original
+  duplicate: (layers: LayerNode[], id: string): LayerNode[] => {
+    console.log(`[LayerAPI] duplicate(id=${id})`);
+    const source = LayerAPI.findNode(layers, id);
+    if (!source) return layers;
+    const copy = cloneNode(source);
+    copy.name = `${source.name} copy`;
+
+    const loc = locate(layers, id)!;
+    return updateSiblings(layers, loc.parentId, children => {
+      const next = [...children];
+      next.splice(loc.index + 1, 0, copy);
+      return next;
+    });
+  },
+
+  // Blend a layer or group into the paint layer below it. The upper node's opacity, blend
+  // mode and mask are baked in (a hidden upper node contributes nothing); the result keeps
+  // the lower layer's id, name, visibility, opacity and blend mode.
+  mergeDown: (layers: LayerNode[], id: string): LayerNode[] => {
+    console.log(`[LayerAPI] mergeDown(id=${id})`);
+    const loc = locate(layers, id);
+    if (!loc || loc.index === 0) return layers;
+    const upper = loc.siblings[loc.index];
+    const lower = loc.siblings[loc.index - 1];
+    if (LayerAPI.isGroup(lower)) return layers;
+
+    const merged: Layer = {
+      ...LayerAPI.create(lower.name),
+      id: lower.id, visible: lower.visible, opacity: lower.opacity, blendMode: lower.blendMode,
+      clipped: lower.clipped, lockAlpha: lower.lockAlpha
+    };
+    // The lower layer acts as the clip base here; its own clipping is kept on the result
+    composeChannels(merged, [{ ...lower, visible: true, opacity: 1, blendMode: 'normal', clipped: false }, upper]);
+
+    return updateSiblings(layers, loc.parentId, children => {
+      const next = [...children];
+      next.splice(loc.index - 1, 2, merged);
+      return next;
+    });
+  },
+
+  // Combine everything visible into one layer on top of the root. Hidden layers and
+  // groups are left untouched (they stay hidden, so the result looks the same).
+  mergeVisible: (layers: LayerNode[]): LayerNode[] => {
+    console.log(`[LayerAPI] mergeVisible()`);
+    const countVisible = (nodes: LayerNode[]): number => nodes.reduce((sum, n) => {
+      if (!n.visible) return sum;
+      return sum + (LayerAPI.isGroup(n) ? countVisible(n.children) : 1);
+    }, 0);
+    if (countVisible(layers) < 2) return layers;
+
+    const merged = LayerAPI.create('Merged');
+    composeChannels(merged, layers);
+
+    // Drop visible layers; keep hidden nodes and any visible group that still holds some
+    const prune = (nodes: LayerNode[]): LayerNode[] => nodes.flatMap(n => {
+      if (!n.visible) return [n];
+      if (!LayerAPI.isGroup(n)) return [];
+      const children = prune(n.children);
+      return children.length > 0 ? [{ ...n, children }] : [];
+    });
+    return [...prune(layers), merged];
+  },
+
+  // Collapse the tree into a single layer. Hidden layers are discarded.
+  flatten: (layers: LayerNode[]): LayerNode[] => {
+    console.log(`[LayerAPI] flatten(layers=${LayerAPI.getLayers(layers).length})`);
+    const flattened = LayerAPI.create('Flattened');
+    composeChannels(flattened, layers);
+    return [flattened];
+  },
+
+  // ------------------------------------------------------------------
+  // MASKS
+  // ------------------------------------------------------------------
+  // Masks start fully revealed (opaque white)
+  addMask: (layers: LayerNode[], id: string): LayerNode[] => {
+    console.log(`[LayerAPI] addMask(id=${id})`);
+    return updateNode(layers, id, n => {
+      if (LayerAPI.isGroup(n) || n.mask) return n;
+      const mask = createSurface();
+      mask.ctx.fillStyle = '#ffffff';
+      mask.ctx.fillRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+      return { ...n, mask };
+    });
+  },
+
+  removeMask: (layers: LayerNode[], id: string): LayerNode[] => {
+    console.log(`[LayerAPI] removeMask(id=${id})`);
+    return updateNode(layers, id, n => LayerAPI.isGroup(n) ? n : { ...n, mask: null });
+  },
+
+  // Reveal the whole layer
+  fillMask: (layer: Layer) => {
+    console.log(`[LayerAPI] fillMask(layer=${layer.name})`);
+    if (!layer.mask) return;
+    layer.mask.ctx.save();
+    layer.mask.ctx.globalCompositeOperation = 'source-over';
+    layer.mask.ctx.fillStyle = '#ffffff';
+    layer.mask.ctx.fillRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+    layer.mask.ctx.restore();
+  },
+
+  // Swap revealed and hidden areas in place
+  invertMask: (mask: PaintSurface) => {
+    console.log(`[LayerAPI] invertMask()`);
+    const copy = createSurface();
+    copy.ctx.drawImage(mask.canvas, 0, 0);
+    mask.ctx.save();
+    mask.ctx.globalCompositeOperation = 'copy';
+    mask.ctx.fillStyle = '#ffffff';
+    mask.ctx.fillRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+    mask.ctx.globalCompositeOperation = 'destination-out';
+    mask.ctx.drawImage(copy.canvas, 0, 0);
+    mask.ctx.restore();
+  },
+
+  // Bake the mask into the layer's pixels, every channel (the caller drops the mask afterwards)
+  applyMask: (layer: Layer) => {
+    console.log(`[LayerAPI] applyMask(layer=${layer.name})`);
+    const mask = layer.mask;
+    if (!mask) return;
+    LayerAPI.getChannelSurfaces(layer).forEach(({ ctx }) => {
+      ctx.save();
+      ctx.globalCompositeOperation = 'destination-in';
+      ctx.drawImage(mask.canvas, 0, 0);
+      ctx.restore();
+    });
+  },
+
+  // Turn projected color into mask coverage: luminance x alpha reveals, everything else stays put
+  toMaskImage: (image: ImageData): ImageData => {
+    const d = image.data;
+    for (let i = 0; i < d.length; i += 4) {
+      const lum = (0.2126 * d[i] + 0.7152 * d[i + 1] + 0.0722 * d[i + 2]) / 255;
+      d[i + 3] = d[i + 3] * lum;
+      d[i] = d[i + 1] = d[i + 2] = 255;
     }
-    return newLayers;
+    return image;
   }
-};
\ No newline at end of file
+};
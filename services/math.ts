@@ -1048,6 +1048,54 @@ export const Easing = {
     }
 };
 
+// ==========================================
+// 9.5. SEEDED RANDOM & NOISE
+// ==========================================
+// Deterministic for a given seed, so procedural results (brush tips) can be regenerated exactly.
+
+// Integer hash of a lattice point (and seed) to [0, 1)
+const hash2 = (seed: number, x: number, y: number): number => {
+    let h = Math.imul(x, 374761393) ^ Math.imul(y, 668265263) ^ Math.imul(seed, 2147483647);
+    h = Math.imul(h ^ (h >>> 13), 1274126177);
+    h ^= h >>> 16;
+    return (h >>> 0) / 4294967296;
+};
+
+export const Noise = {
+    // Mulberry32 generator: returns a function yielding [0, 1)
+    seeded: (seed: number): (() => number) => {
+        let a = seed >>> 0;
+        return () => {
+            a = (a + 0x6D2B79F5) | 0;
+            let t = Math.imul(a ^ (a >>> 15), 1 | a);
+            t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    },
+
+    // Smooth value noise in [0, 1). With `period`, the x axis wraps every `period` units (integer).
+    value2D: (seed: number, x: number, y: number, period = 0): number => {
+        const x0 = Math.floor(x), y0 = Math.floor(y);
+        const tx = MathUtils.smoothStep(x - x0), ty = MathUtils.smoothStep(y - y0);
+        const wrap = (i: number) => (period > 0 ? MathUtils.mod(i, period) : i);
+        const a = hash2(seed, wrap(x0), y0), b = hash2(seed, wrap(x0 + 1), y0);
+        const c = hash2(seed, wrap(x0), y0 + 1), d = hash2(seed, wrap(x0 + 1), y0 + 1);
+        return MathUtils.lerp(MathUtils.lerp(a, b, tx), MathUtils.lerp(c, d, tx), ty);
+    },
+
+    // Fractal sum of value noise octaves (each twice the frequency, half the weight), in [0, 1)
+    fbm2D: (seed: number, x: number, y: number, octaves = 4, period = 0): number => {
+        let sum = 0, weight = 0.5, total = 0, freq = 1;
+        for (let i = 0; i < octaves; i++) {
+            sum += Noise.value2D(seed + i * 1013, x * freq, y * freq, period * freq) * weight;
+            total += weight;
+            weight *= 0.5;
+            freq *= 2;
+        }
+        return sum / total;
+    }
+};
+
 // ==========================================
 // 10. AABB (AXIS ALIGNED BOUNDING BOX)
 // ==========================================
@@ -1284,16 +1332,90 @@ export const GridUtils = {
     },
 
     /**
-     * Extracts vertex data for rendering wireframe lines of a quad grid
+     * Removes a row of the grid (the neighbours close the gap)
+     */
+    removeRow: (grid: Vec3[][], rowIndex: number): Vec3[][] =>
+        grid.filter((_, r) => r !== rowIndex).map(row => row.map(v => ({ ...v }))),
+
+    /**
+     * Removes a column of the grid
      */
-    getWireframeVertices: (grid: Vec3[][]): number[] => {
+    removeCol: (grid: Vec3[][], colIndex: number): Vec3[][] =>
+        grid.map(row => row.filter((_, c) => c !== colIndex).map(v => ({ ...v }))),
+
+    /**
+     * Resamples a curve through `points` at the (non-uniform) parameters `knots` with a Catmull-Rom spline:
+     * each segment becomes `subdivisions` steps. The curve passes through every point; tangents are the
+     * finite differences of the neighbours (one-sided at the ends), so two points give a straight line.
+     */
+    resampleSpline: (points: Vec3[], knots: number[], subdivisions: number): Vec3[] => {
+        const n = points.length;
+        if (n < 2) return points.map(Vec3Utils.clone);
+        const tangents = points.map((_, i) => {
+            const a = Math.max(0, i - 1);
+            const b = Math.min(n - 1, i + 1);
+            const dt = knots[b] - knots[a];
+            return dt > 0 ? Vec3Utils.scale(Vec3Utils.subtract(points[b], points[a], Vec3Utils.create()), 1 / dt, Vec3Utils.create()) : Vec3Utils.create();
+        });
+
+        const out: Vec3[] = [];
+        for (let i = 0; i < n - 1; i++) {
+            const p0 = points[i], p1 = points[i + 1], m0 = tangents[i], m1 = tangents[i + 1];
+            const h = knots[i + 1] - knots[i];
+            for (let s = 0; s < subdivisions; s++) {
+                // Cubic Hermite basis
+                const t = s / subdivisions;
+                const t2 = t * t, t3 = t2 * t;
+                const h00 = 2 * t3 - 3 * t2 + 1;
+                const h10 = (t3 - 2 * t2 + t) * h;
+                const h01 = -2 * t3 + 3 * t2;
+                const h11 = (t3 - t2) * h;
+                out.push({
+                    x: h00 * p0.x + h10 * m0.x + h01 * p1.x + h11 * m1.x,
+                    y: h00 * p0.y + h10 * m0.y + h01 * p1.y + h11 * m1.y,
+                    z: h00 * p0.z + h10 * m0.z + h01 * p1.z + h11 * m1.z
+                });
+            }
+        }
+        out.push(Vec3Utils.clone(points[n - 1]));
+        return out;
+    },
+
+    /**
+     * Parameters of a resampled spline: every knot interval split into `subdivisions` even steps
+     */
+    subdivideKnots: (knots: number[], subdivisions: number): number[] => {
+        const out: number[] = [];
+        for (let i = 0; i < knots.length - 1; i++) {
+            for (let s = 0; s < subdivisions; s++) out.push(MathUtils.lerp(knots[i], knots[i + 1], s / subdivisions));
+        }
+        out.push(knots[knots.length - 1]);
+        return out;
+    },
+
+    /**
+     * Bicubic (tensor Catmull-Rom) refinement of a lattice: every cell becomes `subdivisions` x `subdivisions`
+     * cells of a smooth surface through the original points. Rows lie at `rowCuts`, columns at `colCuts`.
+     */
+    smooth: (grid: Vec3[][], rowCuts: number[], colCuts: number[], subdivisions: number): Vec3[][] => {
+        // The spline is linear in its points, so refining rows and then columns gives the tensor-product surface
+        const rows = grid.map(row => GridUtils.resampleSpline(row, colCuts, subdivisions));
+        const dense = rows[0].map((_, c) => GridUtils.resampleSpline(rows.map(row => row[c]), rowCuts, subdivisions));
+        return dense[0].map((_, r) => dense.map(column => column[r])); // Columns back to rows
+    },
+
+    /**
+     * Extracts vertex data for rendering wireframe lines of a quad grid.
+     * With `step` > 1 only every step-th row and column is drawn (the cut lines of a refined grid).
+     */
+    getWireframeVertices: (grid: Vec3[][], step: number = 1): number[] => {
         const positions: number[] = [];
         const rows = grid.length;
         if (rows === 0) return [];
         const cols = grid[0].length;
 
         // Horizontal Lines
-        for (let r = 0; r < rows; r++) {
+        for (let r = 0; r < rows; r += step) {
             for (let c = 0; c < cols - 1; c++) {
                 const p1 = grid[r][c];
                 const p2 = grid[r][c + 1];
@@ -1303,7 +1425,7 @@ export const GridUtils = {
         }
 
         // Vertical Lines
-        for (let c = 0; c < cols; c++) {
+        for (let c = 0; c < cols; c += step) {
             for (let r = 0; r < rows - 1; r++) {
                 const p1 = grid[r][c];
                 const p2 = grid[r + 1][c];
@@ -1378,6 +1500,7 @@ export default {
     MeshUtils,
     MathUtils,
     Random,
+    Noise,
     Easing,
     
     // Global Temps
@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+// Radius of the default paint sphere. Imported meshes are scaled so their
+// bounding sphere matches it, keeping camera, stencil and curve tooling valid.
+export const MESH_RADIUS = 2;
+
+export const MESH_FORMATS = ['.obj', '.gltf', '.glb', '.ply'];
+
+const getExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+};
+
+// Strip a geometry down to the attributes the paint pipeline uses (position, normal, uv)
+// so geometries coming from different loaders/primitives can be merged.
+const sanitize = (source: THREE.BufferGeometry): THREE.BufferGeometry | null => {
+  const flat = source.index ? source.toNonIndexed() : source;
+  if (!flat.attributes.position || !flat.attributes.uv) return null;
+
+  const geo = new THREE.BufferGeometry();
+  geo.setAttribute('position', flat.attributes.position.clone());
+  geo.setAttribute('uv', flat.attributes.uv.clone());
+  if (flat.attributes.normal) {
+    geo.setAttribute('normal', flat.attributes.normal.clone());
+  } else {
+    geo.computeVertexNormals();
+  }
+  return geo;
+};
+
+// Collect every mesh in a loaded scene graph with its world transform baked in.
+const collectGeometries = (root: THREE.Object3D): THREE.BufferGeometry[] => {
+  const geometries: THREE.BufferGeometry[] = [];
+  root.updateMatrixWorld(true);
+  root.traverse((obj) => {
+    const mesh = obj as THREE.Mesh;
+    if (!mesh.isMesh || !mesh.geometry) return;
+    const geo = mesh.geometry.clone();
+    geo.applyMatrix4(mesh.matrixWorld);
+    geometries.push(geo);
+  });
+  return geometries;
+};
+
+// Buffers a .gltf file loads from separate files. A single uploaded file has nothing to resolve
+// their relative URIs against, so only embedded (data: URI) buffers can be read.
+const externalBuffers = (json: string): string[] => {
+  try {
+    const buffers: { uri?: string }[] = JSON.parse(json).buffers ?? [];
+    return buffers.map(b => b.uri).filter((uri): uri is string => !!uri && !uri.startsWith('data:'));
+  } catch {
+    return []; // Malformed JSON is reported by the loader
+  }
+};
+
+const parseFile = async (file: File): Promise<THREE.BufferGeometry[]> => {
+  const ext = getExtension(file.name);
+  switch (ext) {
+    case '.obj':
+      return collectGeometries(new OBJLoader().parse(await file.text()));
+    case '.gltf': {
+      const json = await file.text();
+      const external = externalBuffers(json);
+      if (external.length > 0) {
+        throw new Error(`It references external files (${external.join(', ')}). Import it as .glb, or as .gltf with embedded buffers.`);
+      }
+      const gltf = await new GLTFLoader().parseAsync(json, '');
+      return collectGeometries(gltf.scene);
+    }
+    case '.glb': {
+      const gltf = await new GLTFLoader().parseAsync(await file.arrayBuffer(), '');
+      return collectGeometries(gltf.scene);
+    }
+    case '.ply':
+      return [new PLYLoader().parse(await file.arrayBuffer())];
+    default:
+      throw new Error(`Unsupported mesh format '${ext}'`);
+  }
+};
+
+export const MeshAPI = {
+  // The built-in paint surface
+  createDefault: (): THREE.BufferGeometry => {
+    console.log(`[MeshAPI] createDefault()`);
+    return new THREE.SphereGeometry(MESH_RADIUS, 64, 64);
+  },
+
+  isDefault: (geometry: THREE.BufferGeometry): boolean => geometry instanceof THREE.SphereGeometry,
+
+  isSupported: (fileName: string): boolean => MESH_FORMATS.includes(getExtension(fileName)),
+
+  // Center the geometry at the origin and scale it to fit the paint radius
+  normalize: (geometry: THREE.BufferGeometry): THREE.BufferGeometry => {
+    console.log(`[MeshAPI] normalize()`);
+    geometry.computeBoundingBox();
+    const center = new THREE.Vector3();
+    geometry.boundingBox!.getCenter(center);
+    geometry.translate(-center.x, -center.y, -center.z);
+
+    geometry.computeBoundingSphere();
+    const radius = geometry.boundingSphere!.radius;
+    if (radius > 0) {
+      const s = MESH_RADIUS / radius;
+      geometry.scale(s, s, s);
+    }
+    geometry.computeBoundingBox();
+    geometry.computeBoundingSphere();
+    return geometry;
+  },
+
+  // Load an OBJ, glTF/GLB or PLY file into a single normalized, UV-mapped geometry.
+  // Rejects with a message saying why the file can't be used.
+  load: async (file: File): Promise<THREE.BufferGeometry> => {
+    console.log(`[MeshAPI] load(file=${file.name})`);
+    const parsed = await parseFile(file);
+    const usable = parsed
+      .map(sanitize)
+      .filter((g): g is THREE.BufferGeometry => g !== null);
+    parsed.forEach(g => g.dispose());
+
+    if (usable.length === 0) throw new Error('The file must contain at least one mesh with UV coordinates.');
+
+    const merged = usable.length === 1 ? usable[0] : mergeGeometries(usable, false);
+    if (usable.length > 1) usable.forEach(g => g.dispose());
+    if (!merged) throw new Error('Its meshes could not be merged into one surface.');
+    return MeshAPI.normalize(merged);
+  }
+};
@@ -0,0 +1,158 @@
+import { BrushPreset, BrushSettings } from '../types';
+import { INITIAL_BRUSH } from '../constants';
+import { BrushAPI } from './brushService';
+import { DynamicsAPI } from './dynamicsService';
+import { FileAPI } from './fileService';
+import { StorageAPI } from './storageService';
+import { TipAPI } from './tipService';
+
+export const PRESET_BUNDLE_EXTENSION = '.json';
+const BUNDLE_FORMAT = 'polypaint-presets';
+const BUNDLE_VERSION = 1;
+const STORAGE_KEY = 'presets';
+
+// Stroke thumbnail size (CSS px at 2x)
+const THUMB_WIDTH = 160;
+const THUMB_HEIGHT = 64;
+const THUMB_INK = '#e5e5e5';
+
+// Preset bundle file (JSON). Tip images are embedded as data URLs, so bundles are self-contained.
+export interface PresetBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  presets: BrushPreset[];
+}
+
+const genId = () => Math.random().toString(36).substr(2, 9);
+
+// Data URL of a tip image that may still be a plain URL
+const embedImage = async (src: string): Promise<string> => {
+  if (src.startsWith('data:')) return src;
+  const img = await FileAPI.loadImage(src);
+  const cvs = document.createElement('canvas');
+  cvs.width = img.naturalWidth;
+  cvs.height = img.naturalHeight;
+  cvs.getContext('2d')!.drawImage(img, 0, 0);
+  return cvs.toDataURL('image/png');
+};
+
+export const PresetAPI = {
+  // Stored presets, or null before anything was saved
+  load: async (): Promise<BrushPreset[] | null> => {
+    console.log(`[PresetAPI] load()`);
+    try {
+      return await StorageAPI.get<BrushPreset[]>(STORAGE_KEY);
+    } catch (err) {
+      console.warn(`[PresetAPI] Failed to load presets.`, err);
+      return null;
+    }
+  },
+
+  save: (presets: BrushPreset[]): Promise<void> => StorageAPI.set(STORAGE_KEY, presets),
+
+  // Presets from `incoming` whose id is not in `presets` yet, appended
+  merge: (presets: BrushPreset[], incoming: BrushPreset[]): BrushPreset[] => {
+    const known = new Set(presets.map(p => p.id));
+    return [...presets, ...incoming.filter(p => !known.has(p.id))];
+  },
+
+  duplicate: (preset: BrushPreset): BrushPreset => ({
+    ...preset,
+    id: genId(),
+    name: `${preset.name} Copy`,
+    tags: preset.tags ? [...preset.tags] : undefined,
+    settings: { ...preset.settings }
+  }),
+
+  exportBundle: async (presets: BrushPreset[], fileName: string = `brushes${PRESET_BUNDLE_EXTENSION}`) => {
+    console.log(`[PresetAPI] exportBundle(count=${presets.length})`);
+    const embedded = await Promise.all(presets.map(async p => ({
+      ...p,
+      settings: { ...p.settings, maskImage: p.settings.maskImage ? await embedImage(p.settings.maskImage) : p.settings.maskImage }
+    })));
+    const bundle: PresetBundle = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, presets: embedded };
+    FileAPI.download(new Blob([JSON.stringify(bundle)], { type: 'application/json' }), fileName);
+  },
+
+  // Presets of a bundle, with fresh ids so they never replace existing ones. Throws on other files.
+  importBundle: async (file: File): Promise<BrushPreset[]> => {
+    console.log(`[PresetAPI] importBundle(fileName=${file.name})`);
+    const data = JSON.parse(await file.text());
+    if (data?.format !== BUNDLE_FORMAT || !Array.isArray(data.presets)) {
+      throw new Error(`[PresetAPI] '${file.name}' is not a brush preset bundle.`);
+    }
+    if (data.version > BUNDLE_VERSION) {
+      throw new Error(`[PresetAPI] '${file.name}' was saved by a newer version (v${data.version}).`);
+    }
+    return (data.presets as BrushPreset[])
+      .filter(p => p && typeof p.name === 'string' && p.settings && typeof p.settings === 'object')
+      .map(p => ({ ...p, id: genId() }));
+  },
+
+  // Preview of a preset: an S-stroke with a pressure taper, stamped with the preset's tip and dynamics
+  renderThumbnail: async (settings: Partial<BrushSettings>): Promise<string> => {
+    const brush: BrushSettings = { ...INITIAL_BRUSH, ...settings };
+    const cvs = document.createElement('canvas');
+    cvs.width = THUMB_WIDTH;
+    cvs.height = THUMB_HEIGHT;
+    const ctx = cvs.getContext('2d')!;
+
+    let tip: HTMLCanvasElement | null = null;
+    if (brush.maskImage) {
+      const mask = await BrushAPI.processMaskTip(brush.maskImage);
+      if (mask) {
+        tip = document.createElement('canvas');
+        tip.width = mask.width;
+        tip.height = mask.height;
+        const tCtx = tip.getContext('2d')!;
+        tCtx.fillStyle = THUMB_INK;
+        tCtx.fillRect(0, 0, tip.width, tip.height);
+        tCtx.globalCompositeOperation = 'destination-in';
+        tCtx.drawImage(mask, 0, 0);
+      }
+    }
+
+    // Large brushes are scaled down to fit; small ones keep their size
+    const scale = Math.min(1, (THUMB_HEIGHT * 0.45) / Math.max(1, brush.size));
+    const margin = THUMB_HEIGHT * 0.3;
+    const point = (t: number) => ({
+      x: margin + t * (THUMB_WIDTH - margin * 2),
+      y: THUMB_HEIGHT / 2 - Math.sin(t * Math.PI * 2) * THUMB_HEIGHT * 0.22
+    });
+
+    let t = 0;
+    while (t <= 1) {
+      const sample = { pressure: 0.15 + 0.85 * Math.sin(t * Math.PI), tilt: 0, twist: 0, velocity: 0.3, distance: t };
+      const dyn = DynamicsAPI.resolve(brush, sample);
+      const size = Math.max(1, dyn.size * scale);
+      const { x, y } = point(t);
+      ctx.save();
+      ctx.translate(
+        x + (Math.random() - 0.5) * size * dyn.jitter,
+        y + (Math.random() - 0.5) * size * dyn.jitter
+      );
+      ctx.rotate((dyn.rotation * Math.PI) / 180 + (Math.random() - 0.5) * 2 * Math.PI * brush.rotationJitter);
+      ctx.globalAlpha = Math.min(1, dyn.opacity * dyn.flow);
+      if (tip) ctx.drawImage(tip, -size / 2, -size / 2, size, size);
+      else if (!TipAPI.isPlain(brush.tip)) ctx.drawImage(TipAPI.mask(brush.tip, dyn.hardness, size), -size / 2, -size / 2, size, size);
+      else TipAPI.drawRound(ctx, size / 2, THUMB_INK, dyn.hardness);
+      ctx.restore();
+
+      // Spacing is relative to the nominal size, as on the surface; the path is about 1.3x its width
+      t += Math.max(0.5, brush.size * scale * brush.spacing) / ((THUMB_WIDTH - margin * 2) * 1.3);
+    }
+    return cvs.toDataURL('image/png');
+  },
+
+  // Presets with a thumbnail filled in wherever one is missing. One that fails to render keeps going without.
+  withThumbnails: async (presets: BrushPreset[]): Promise<BrushPreset[]> =>
+    Promise.all(presets.map(async p => {
+      if (p.thumbnail) return p;
+      try {
+        return { ...p, thumbnail: await PresetAPI.renderThumbnail(p.settings) };
+      } catch (err) {
+        console.warn(`[PresetAPI] Failed to render a thumbnail for '${p.name}'.`, err);
+        return p;
+      }
+    }))
+};
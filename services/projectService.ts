@@ -0,0 +1,231 @@
+import * as THREE from 'three';
+import { BrushSettings, BrushPreset, Layer, LayerGroup, LayerNode, StencilSettings, StencilDocument, SymmetrySettings, CurvePoint, CameraPose, BlendMode, DataChannel } from '../types';
+import { TEXTURE_SIZE, INITIAL_BRUSH, DEFAULT_SYMMETRY } from '../constants';
+import { LayerAPI } from './layerService';
+import { StencilAPI } from './stencilService';
+import { MeshAPI } from './meshService';
+import { FileAPI } from './fileService';
+
+export const PROJECT_EXTENSION = '.polypaint';
+export const PROJECT_VERSION = 1;
+
+export interface ProjectLayerData {
+  id: string;
+  name: string;
+  visible: boolean;
+  opacity: number;
+  blendMode: BlendMode;
+  image: string; // PNG data URL of the layer canvas
+  mask: string | null; // PNG data URL of the mask canvas
+  channels: Partial<Record<DataChannel, string>>; // PNG data URLs of the material channels the layer carries
+  clipped: boolean;
+  lockAlpha: boolean;
+}
+
+export interface ProjectGroupData {
+  id: string;
+  name: string;
+  visible: boolean;
+  opacity: number;
+  blendMode: LayerGroup['blendMode'];
+  collapsed: boolean;
+  children: ProjectNodeData[];
+}
+
+export type ProjectNodeData = ProjectLayerData | ProjectGroupData;
+
+// On-disk manifest (JSON). Purely additive fields are back-filled from defaults
+// on load; renames or changes of meaning need a PROJECT_VERSION bump and a migration.
+export interface ProjectFile {
+  format: 'polypaint';
+  version: number;
+  textureSize: number;
+  mesh: { name: string; geometry: object | null }; // null = default sphere
+  layers: ProjectNodeData[]; // Bottom -> Top, same order as the layer tree (groups nested)
+  activeLayerId: string;
+  brush: BrushSettings;
+  presets: BrushPreset[];
+  stencil: StencilSettings; // The stencil being edited
+  stencils: StencilDocument[]; // Stencil library (includes the edited stencil)
+  symmetry: SymmetrySettings;
+  curvePoints: CurvePoint[];
+  camera: CameraPose | null;
+}
+
+// Live application state that a project captures and restores
+export interface ProjectState {
+  geometry: THREE.BufferGeometry;
+  meshName: string;
+  layers: LayerNode[];
+  activeLayerId: string;
+  brush: BrushSettings;
+  presets: BrushPreset[];
+  stencil: StencilSettings; // The stencil being edited
+  stencils: StencilDocument[]; // Stencil library
+  symmetry: SymmetrySettings;
+  curvePoints: CurvePoint[];
+  camera: CameraPose | null;
+}
+
+type Migration = (data: any) => any;
+
+// MIGRATIONS[n] upgrades a version n manifest to version n + 1
+const MIGRATIONS: Record<number, Migration> = {};
+
+const serializeNode = (node: LayerNode): ProjectNodeData => {
+  if (LayerAPI.isGroup(node)) {
+    return {
+      id: node.id,
+      name: node.name,
+      visible: node.visible,
+      opacity: node.opacity,
+      blendMode: node.blendMode,
+      collapsed: node.collapsed,
+      children: node.children.map(serializeNode)
+    };
+  }
+  return {
+    id: node.id,
+    name: node.name,
+    visible: node.visible,
+    opacity: node.opacity,
+    blendMode: node.blendMode,
+    image: node.canvas.toDataURL('image/png'),
+    mask: node.mask ? node.mask.canvas.toDataURL('image/png') : null,
+    channels: Object.fromEntries(Object.entries(node.channels).map(([c, surface]) => [c, surface!.canvas.toDataURL('image/png')])),
+    clipped: node.clipped,
+    lockAlpha: node.lockAlpha
+  };
+};
+
+const restoreNode = async (data: ProjectNodeData): Promise<LayerNode> => {
+  if ('children' in data) {
+    return {
+      ...LayerAPI.createGroup(data.name, await Promise.all(data.children.map(restoreNode))),
+      id: data.id,
+      visible: data.visible,
+      opacity: data.opacity,
+      blendMode: data.blendMode ?? 'pass-through',
+      collapsed: data.collapsed ?? false
+    };
+  }
+
+  const layer: Layer = {
+    ...LayerAPI.create(data.name),
+    id: data.id,
+    visible: data.visible,
+    opacity: data.opacity,
+    blendMode: data.blendMode ?? 'normal',
+    clipped: data.clipped ?? false,
+    lockAlpha: data.lockAlpha ?? false
+  };
+  LayerAPI.drawTexture(layer, await FileAPI.loadImage(data.image));
+  for (const [channel, image] of Object.entries(data.channels ?? {}) as [DataChannel, string][]) {
+    LayerAPI.ensureChannel(layer, channel).ctx.drawImage(await FileAPI.loadImage(image), 0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+  }
+  if (!data.mask) return layer;
+
+  const [masked] = LayerAPI.addMask([layer], layer.id) as Layer[];
+  masked.mask!.ctx.clearRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+  masked.mask!.ctx.drawImage(await FileAPI.loadImage(data.mask), 0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+  return masked;
+};
+
+export const ProjectAPI = {
+  serialize: (state: ProjectState): ProjectFile => {
+    console.log(`[ProjectAPI] serialize(layers=${state.layers.length})`);
+    return {
+      format: 'polypaint',
+      version: PROJECT_VERSION,
+      textureSize: TEXTURE_SIZE,
+      mesh: {
+        name: state.meshName,
+        geometry: MeshAPI.isDefault(state.geometry) ? null : state.geometry.toJSON()
+      },
+      layers: state.layers.map(serializeNode),
+      activeLayerId: state.activeLayerId,
+      brush: state.brush,
+      presets: state.presets,
+      stencil: state.stencil,
+      stencils: StencilAPI.storeDocument(state.stencils, state.stencil),
+      symmetry: state.symmetry,
+      curvePoints: state.curvePoints,
+      camera: state.camera
+    };
+  },
+
+  save: (state: ProjectState, fileName: string = `project${PROJECT_EXTENSION}`) => {
+    console.log(`[ProjectAPI] save(fileName=${fileName})`);
+    const data = ProjectAPI.serialize(state);
+    FileAPI.download(new Blob([JSON.stringify(data)], { type: 'application/json' }), fileName);
+  },
+
+  // Upgrade an older manifest step by step to the current version
+  migrate: (data: any): ProjectFile => {
+    let version = data.version;
+    while (version < PROJECT_VERSION) {
+      const migration = MIGRATIONS[version];
+      if (!migration) throw new Error(`No migration from project version ${version}`);
+      console.log(`[ProjectAPI] migrate(v${version} -> v${version + 1})`);
+      data = migration(data);
+      version = data.version = version + 1;
+    }
+    return data as ProjectFile;
+  },
+
+  parse: (text: string): ProjectFile => {
+    console.log(`[ProjectAPI] parse()`);
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('File is not a valid project (malformed JSON).');
+    }
+    if (!data || data.format !== 'polypaint' || typeof data.version !== 'number') {
+      throw new Error('File is not a PolyPaint project.');
+    }
+    if (data.version > PROJECT_VERSION) {
+      throw new Error(`Project was saved by a newer version (v${data.version}).`);
+    }
+    const project = ProjectAPI.migrate(data);
+    if (!Array.isArray(project.layers) || project.layers.length === 0) {
+      throw new Error('Project contains no layers.');
+    }
+    return project;
+  },
+
+  // Rebuild live state (canvases, geometry) from a manifest
+  restore: async (project: ProjectFile): Promise<ProjectState> => {
+    console.log(`[ProjectAPI] restore(layers=${project.layers.length})`);
+    const layers = await Promise.all(project.layers.map(restoreNode));
+    const paintLayers = LayerAPI.getLayers(layers);
+    if (paintLayers.length === 0) throw new Error('Project contains no layers.');
+
+    const geometry = project.mesh.geometry
+      ? new THREE.BufferGeometryLoader().parse(project.mesh.geometry)
+      : MeshAPI.createDefault();
+
+    const activeLayerId = LayerAPI.findNode(layers, project.activeLayerId)
+      ? project.activeLayerId
+      : paintLayers[paintLayers.length - 1].id;
+
+    return {
+      geometry,
+      meshName: project.mesh.name,
+      layers,
+      activeLayerId,
+      brush: { ...INITIAL_BRUSH, ...project.brush },
+      presets: project.presets ?? [],
+      stencil: { ...StencilAPI.getDefaults(), ...project.stencil },
+      stencils: project.stencils ?? [],
+      symmetry: { ...DEFAULT_SYMMETRY, ...project.symmetry },
+      curvePoints: project.curvePoints ?? [],
+      camera: project.camera ?? null
+    };
+  },
+
+  load: async (file: File): Promise<ProjectState> => {
+    console.log(`[ProjectAPI] load(file=${file.name})`);
+    return ProjectAPI.restore(ProjectAPI.parse(await file.text()));
+  }
+};
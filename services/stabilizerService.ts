@@ -0,0 +1,78 @@
+import { BrushSettings, StabilizerMode } from '../types';
+import { Vec2 } from './math';
+
+// Smoothing state of one freehand stroke, in screen pixels
+export interface StabilizerState {
+  mode: StabilizerMode;
+  radius: number;   // Lazy-mouse string length
+  window: number;   // Moving-average sample count
+  catchUp: boolean;
+  anchor: Vec2;     // Last position handed to the brush
+  pointer: Vec2;    // Last raw pointer position
+  samples: Vec2[];  // Latest raw positions (moving average)
+}
+
+const average = (samples: Vec2[]): Vec2 => {
+  const sum = samples.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / samples.length, y: sum.y / samples.length };
+};
+
+export const StabilizerAPI = {
+  // Start a stroke at `start`. `scale` converts the brush's screen-pixel radius into the caller's units.
+  begin: (brush: BrushSettings, start: Vec2, scale: number = 1): StabilizerState => {
+    console.log(`[StabilizerAPI] begin(mode=${brush.stabilizer})`);
+    return {
+      mode: brush.stabilizer,
+      radius: brush.stabilizerRadius * scale,
+      window: Math.max(1, Math.round(brush.stabilizerWindow)),
+      catchUp: brush.stabilizerCatchUp,
+      anchor: { ...start },
+      pointer: { ...start },
+      samples: [{ ...start }]
+    };
+  },
+
+  // Feed a raw pointer position; returns the positions to paint (none while the string is slack)
+  push: (state: StabilizerState, p: Vec2): Vec2[] => {
+    state.pointer = { ...p };
+    switch (state.mode) {
+      case 'lazy': {
+        // Pulled string: the brush only moves once the pointer is more than `radius` away,
+        // and then just far enough to keep the string taut
+        const dx = p.x - state.anchor.x, dy = p.y - state.anchor.y;
+        const dist = Math.hypot(dx, dy);
+        if (dist <= state.radius) return [];
+        const t = (dist - state.radius) / dist;
+        state.anchor = { x: state.anchor.x + dx * t, y: state.anchor.y + dy * t };
+        return [{ ...state.anchor }];
+      }
+      case 'average': {
+        state.samples.push({ ...p });
+        if (state.samples.length > state.window) state.samples.shift();
+        state.anchor = average(state.samples);
+        return [{ ...state.anchor }];
+      }
+      default:
+        state.anchor = { ...p };
+        return [{ ...p }];
+    }
+  },
+
+  // End of stroke: with catch-up, the positions that bring the brush onto the release point
+  finish: (state: StabilizerState): Vec2[] => {
+    if (!state.catchUp || state.mode === 'none') return [];
+    if (state.mode === 'average') {
+      // Drain the window towards the last sample so the stroke eases into place
+      const out: Vec2[] = [];
+      while (state.samples.length > 1) {
+        state.samples.shift();
+        out.push(average(state.samples));
+      }
+      return out;
+    }
+    const { anchor, pointer } = state;
+    if (anchor.x === pointer.x && anchor.y === pointer.y) return [];
+    state.anchor = { ...pointer };
+    return [{ ...pointer }];
+  }
+};
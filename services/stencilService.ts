@@ -1,11 +1,40 @@
 
-import { StencilSettings } from '../types';
+import { StencilSettings, StencilTransform, StencilRig, StencilDocument, StencilInterpolation, Vec3 } from '../types';
 import { TIP_LIBRARY } from '../constants';
+import { GridUtils, MathUtils } from './math';
+import { FileAPI } from './fileService';
+
+export const STENCIL_RIG_EXTENSION = '.json';
+const RIG_FORMAT = 'polypaint-stencil-rig';
+const RIG_VERSION = 1;
+
+// Stencil rig file (JSON): the lattice and placement without the image, so it can be reused with any image
+export interface StencilRigFile extends StencilRig {
+  format: typeof RIG_FORMAT;
+  version: number;
+  name: string; // Of the stencil it was saved from
+}
+
+// Lattice point, by row and column
+export interface GridIndex {
+  r: number;
+  c: number;
+}
+
+// Smooth warps are tessellated to about this many cells across, with 4-16 per lattice cell
+const SMOOTH_RESOLUTION = 64;
+
+const genId = () => Math.random().toString(36).substr(2, 9);
+
+const isCuts = (cuts: unknown): cuts is number[] =>
+  Array.isArray(cuts) && cuts.length >= 2 && cuts.every(c => typeof c === 'number' && c >= 0 && c <= 1);
 
 export const StencilAPI = {
   getDefaults: (): StencilSettings => {
     console.log(`[StencilAPI] getDefaults()`);
     return {
+      id: genId(),
+      name: 'Stencil 1',
       visible: false,
       image: TIP_LIBRARY[4].src, 
       opacity: 0.5,
@@ -14,7 +43,120 @@ export const StencilAPI = {
       tool: 'select',
       rowCuts: [0, 1], 
       colCuts: [0, 1],
-      cullBackfaces: true
+      cullBackfaces: true,
+      proportional: false,
+      proportionalRadius: 0.3,
+      snapToCuts: false,
+      gridPoints: null,
+      interpolation: 'linear',
+      transform: StencilAPI.getDefaultTransform()
+    };
+  },
+
+  getDefaultTransform: (): StencilTransform => ({
+    position: { x: 0, y: 0, z: 2.5 },
+    rotation: { x: 0, y: 0, z: 0, w: 1 },
+    scale: { x: 1, y: 1, z: 1 }
+  }),
+
+  // Undeformed 2x2 lattice sized to the stencil image
+  createGrid: (aspectRatio: number): Vec3[][] => {
+    console.log(`[StencilAPI] createGrid(aspectRatio=${aspectRatio.toFixed(3)})`);
+    return GridUtils.create(2, 2, aspectRatio, 1.0);
+  },
+
+  getRig: (stencil: StencilSettings): StencilRig => ({
+    rowCuts: stencil.rowCuts,
+    colCuts: stencil.colCuts,
+    gridPoints: stencil.gridPoints,
+    interpolation: stencil.interpolation,
+    transform: stencil.transform
+  }),
+
+  // Cuts and grid are replaced immutably (reference check); the transform is re-committed after every drag
+  rigEquals: (a: StencilRig, b: StencilRig): boolean =>
+    a.rowCuts === b.rowCuts && a.colCuts === b.colCuts && a.gridPoints === b.gridPoints && a.interpolation === b.interpolation &&
+    JSON.stringify(a.transform) === JSON.stringify(b.transform),
+
+  getDocument: (stencil: StencilSettings): StencilDocument => ({
+    id: stencil.id,
+    name: stencil.name,
+    image: stencil.image,
+    aspectRatio: stencil.aspectRatio,
+    ...StencilAPI.getRig(stencil)
+  }),
+
+  // New library entry with the default image and an undeformed rig
+  createDocument: (name: string): StencilDocument => {
+    console.log(`[StencilAPI] createDocument(name=${name})`);
+    const { image, aspectRatio, rowCuts, colCuts, interpolation, transform } = StencilAPI.getDefaults();
+    return { id: genId(), name, image, aspectRatio, rowCuts, colCuts, gridPoints: null, interpolation, transform };
+  },
+
+  // The library with the live stencil written into its entry (appended if it has none)
+  storeDocument: (documents: StencilDocument[], stencil: StencilSettings): StencilDocument[] => {
+    const doc = StencilAPI.getDocument(stencil);
+    return documents.some(d => d.id === doc.id)
+      ? documents.map(d => (d.id === doc.id ? doc : d))
+      : [...documents, doc];
+  },
+
+  // Make `doc` the edited stencil; view settings carry over
+  openDocument: (stencil: StencilSettings, doc: StencilDocument): StencilSettings => {
+    console.log(`[StencilAPI] openDocument(id=${doc.id})`);
+    return { ...stencil, ...doc };
+  },
+
+  exportRig: (stencil: StencilSettings, fileName: string = `${stencil.name || 'stencil'}-rig${STENCIL_RIG_EXTENSION}`) => {
+    console.log(`[StencilAPI] exportRig(name=${stencil.name})`);
+    const file: StencilRigFile = {
+      format: RIG_FORMAT,
+      version: RIG_VERSION,
+      name: stencil.name,
+      ...StencilAPI.getRig(stencil)
+    };
+    FileAPI.download(new Blob([JSON.stringify(file)], { type: 'application/json' }), fileName);
+  },
+
+  // Rig of a rig file. Throws on other files and on lattices that do not match their cuts.
+  importRig: async (file: File): Promise<StencilRig> => {
+    console.log(`[StencilAPI] importRig(fileName=${file.name})`);
+    let data: any;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      throw new Error(`[StencilAPI] '${file.name}' is not valid JSON.`);
+    }
+    if (data?.format !== RIG_FORMAT) throw new Error(`[StencilAPI] '${file.name}' is not a stencil rig.`);
+    if (data.version > RIG_VERSION) throw new Error(`[StencilAPI] '${file.name}' was saved by a newer version (v${data.version}).`);
+    if (!isCuts(data.rowCuts) || !isCuts(data.colCuts) || !data.transform) {
+      throw new Error(`[StencilAPI] '${file.name}' has no valid cuts or transform.`);
+    }
+    const grid = data.gridPoints;
+    if (grid !== null && (!Array.isArray(grid) || grid.length !== data.rowCuts.length ||
+        grid.some((row: unknown) => !Array.isArray(row) || row.length !== data.colCuts.length))) {
+      throw new Error(`[StencilAPI] '${file.name}' has a grid that does not match its cuts.`);
+    }
+    return {
+      rowCuts: data.rowCuts,
+      colCuts: data.colCuts,
+      gridPoints: grid,
+      interpolation: data.interpolation === 'smooth' ? 'smooth' : 'linear', // Rigs saved before smooth warps were linear
+      transform: data.transform
+    };
+  },
+
+  // Grid the stencil plane is drawn and projected with: the lattice itself, or its smooth refinement.
+  // `step` is the number of surface cells per lattice cell, so every step-th line is a cut.
+  getSurface: (grid: Vec3[][], rowCuts: number[], colCuts: number[], interpolation: StencilInterpolation) => {
+    if (interpolation !== 'smooth') return { grid, rowCuts, colCuts, step: 1 };
+    const cells = Math.max(rowCuts.length, colCuts.length) - 1;
+    const step = Math.min(16, Math.max(4, Math.ceil(SMOOTH_RESOLUTION / cells)));
+    return {
+      grid: GridUtils.smooth(grid, rowCuts, colCuts, step),
+      rowCuts: GridUtils.subdivideKnots(rowCuts, step),
+      colCuts: GridUtils.subdivideKnots(colCuts, step),
+      step
     };
   },
 
@@ -23,5 +165,42 @@ export const StencilAPI = {
     const newCuts = [...cuts, value];
     newCuts.sort((a, b) => a - b);
     return newCuts;
+  },
+
+  // Cuts without the one at `index`. The border cuts (first and last) stay.
+  removeCut: (cuts: number[], index: number): number[] => {
+    console.log(`[StencilAPI] removeCut(index=${index})`);
+    if (index <= 0 || index >= cuts.length - 1) return cuts;
+    return cuts.filter((_, i) => i !== index);
+  },
+
+  // Undeformed lattice for the cuts: every point on its straight cut lines, sized like createGrid
+  getRestGrid: (rowCuts: number[], colCuts: number[], aspectRatio: number): Vec3[][] =>
+    rowCuts.map(v => colCuts.map(u => ({ x: (u - 0.5) * aspectRatio, y: v - 0.5, z: 0 }))),
+
+  // How far each point follows a move of `selection`: fully when selected, easing to 0 at `radius`
+  // from the nearest selected point (radius 0 = only the selection moves)
+  getFalloffWeights: (grid: Vec3[][], selection: GridIndex[], radius: number): number[][] => {
+    const selected = new Set(selection.map(({ r, c }) => `${r}-${c}`));
+    const anchors = selection.map(({ r, c }) => grid[r]?.[c]).filter(Boolean);
+    return grid.map((row, r) => row.map((p, c) => {
+      if (selected.has(`${r}-${c}`)) return 1;
+      if (radius <= 0) return 0;
+      const d = Math.min(...anchors.map(a => Math.hypot(p.x - a.x, p.y - a.y)));
+      return d < radius ? 1 - MathUtils.smoothStep(d / radius) : 0;
+    }));
+  },
+
+  // Point moved onto the undeformed cut lines it is within `threshold` of (each axis on its own)
+  snapToCuts: (p: Vec3, rowCuts: number[], colCuts: number[], aspectRatio: number, threshold: number): Vec3 => {
+    const nearest = (value: number, lines: number[]) =>
+      lines.reduce((best, line) => (Math.abs(line - value) < Math.abs(best - value) ? line : best), Infinity);
+    const x = nearest(p.x, colCuts.map(u => (u - 0.5) * aspectRatio));
+    const y = nearest(p.y, rowCuts.map(v => v - 0.5));
+    return {
+      x: Math.abs(x - p.x) <= threshold ? x : p.x,
+      y: Math.abs(y - p.y) <= threshold ? y : p.y,
+      z: p.z
+    };
   }
 };
\ No newline at end of file
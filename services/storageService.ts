@@ -0,0 +1,58 @@
+// Persistent key-value store for user libraries. Values live in IndexedDB; browsers without it
+// (or with storage blocked) fall back to localStorage, which holds far less.
+
+const DB_NAME = 'polypaint';
+const STORE_NAME = 'libraries';
+const LOCAL_PREFIX = 'polypaint:';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') { resolve(null); return; }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn(`[StorageAPI] IndexedDB unavailable, using localStorage.`);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = <T>(db: IDBDatabase, mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const request = op(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+
+export const StorageAPI = {
+  get: async <T>(key: string): Promise<T | null> => {
+    const db = await openDb();
+    if (db) {
+      const value = await run<T | undefined>(db, 'readonly', store => store.get(key));
+      return value ?? null;
+    }
+    const raw = localStorage.getItem(LOCAL_PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  },
+
+  // Never rejects: a failed write (quota, blocked storage, uncloneable value) is only warned about
+  set: async <T>(key: string, value: T): Promise<void> => {
+    console.log(`[StorageAPI] set(key=${key})`);
+    try {
+      const db = await openDb();
+      if (db) {
+        await run(db, 'readwrite', store => store.put(value, key));
+        return;
+      }
+      localStorage.setItem(LOCAL_PREFIX + key, JSON.stringify(value));
+    } catch (err) {
+      console.warn(`[StorageAPI] Failed to store "${key}".`, err);
+    }
+  }
+};
@@ -0,0 +1,369 @@
+import * as THREE from 'three';
+import { Vec3 } from '../types';
+import { TEXTURE_SIZE } from '../constants';
+
+// Texels a clip triangle is grown by, so neighbouring splats meet without cracks
+const CLIP_PADDING = 1.5;
+
+// A stamp placed into one UV chart: its center in texels, the 2x2 linear map (ctx.transform a, b, c, d)
+// from the stroke's stamp frame into this chart, and the chart's triangles near the stamp as a clip.
+export interface Splat {
+  x: number;
+  y: number;
+  transform: [number, number, number, number];
+  clip: Path2D | null;
+}
+
+// Per-triangle lookup data for surface-space painting, built once per geometry
+export interface SurfaceIndex {
+  triangleCount: number;
+  positions: Float32Array; // 9 per triangle, object space
+  texels: Float32Array;    // 6 per triangle, texel space (y down)
+  toTexel: Float32Array;   // 6 per triangle: 2x3 map from 3D offsets in the triangle plane to texel offsets
+  fromTexel: Float32Array; // 6 per triangle: 3x2 map from texel offsets back to 3D
+  density: Float32Array;   // Texels per world unit
+  neighbors: Int32Array;   // 3 per triangle: triangle across each edge when UVs continue there, else -1
+  cellSize: number;
+  cells: Map<string, number[]>;
+  seamEdges: number;
+}
+
+const EMPTY_SPLATS: Splat[] = [];
+
+const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+// Triangles whose bounds overlap the sphere (point, radius)
+const queryCells = (index: SurfaceIndex, p: Vec3, radius: number, out: Set<number>) => {
+  const s = index.cellSize;
+  const x0 = Math.floor((p.x - radius) / s), x1 = Math.floor((p.x + radius) / s);
+  const y0 = Math.floor((p.y - radius) / s), y1 = Math.floor((p.y + radius) / s);
+  const z0 = Math.floor((p.z - radius) / s), z1 = Math.floor((p.z + radius) / s);
+  for (let x = x0; x <= x1; x++) {
+    for (let y = y0; y <= y1; y++) {
+      for (let z = z0; z <= z1; z++) {
+        index.cells.get(cellKey(x, y, z))?.forEach(t => out.add(t));
+      }
+    }
+  }
+};
+
+const TMP_TRIANGLE = new THREE.Triangle();
+const TMP_POINT = new THREE.Vector3();
+const TMP_CLOSEST = new THREE.Vector3();
+const TMP_BARY = new THREE.Vector3();
+
+const loadTriangle = (index: SurfaceIndex, t: number) => {
+  const o = t * 9;
+  const pos = index.positions;
+  TMP_TRIANGLE.a.set(pos[o], pos[o + 1], pos[o + 2]);
+  TMP_TRIANGLE.b.set(pos[o + 3], pos[o + 4], pos[o + 5]);
+  TMP_TRIANGLE.c.set(pos[o + 6], pos[o + 7], pos[o + 8]);
+  return TMP_TRIANGLE;
+};
+
+const triangleDistance = (index: SurfaceIndex, t: number, p: Vec3) => {
+  loadTriangle(index, t);
+  TMP_POINT.set(p.x, p.y, p.z);
+  TMP_TRIANGLE.closestPointToPoint(TMP_POINT, TMP_CLOSEST);
+  return TMP_CLOSEST.distanceTo(TMP_POINT);
+};
+
+// Texture coordinates (V up) of point `p` lying on triangle `t`
+const uvOnTriangle = (index: SurfaceIndex, t: number, p: THREE.Vector3) => {
+  loadTriangle(index, t).getBarycoord(p, TMP_BARY);
+  const q = index.texels, o = t * 6;
+  const x = q[o] * TMP_BARY.x + q[o + 2] * TMP_BARY.y + q[o + 4] * TMP_BARY.z;
+  const y = q[o + 1] * TMP_BARY.x + q[o + 3] * TMP_BARY.y + q[o + 5] * TMP_BARY.z;
+  return new THREE.Vector2(x / TEXTURE_SIZE, 1 - y / TEXTURE_SIZE);
+};
+
+// Texel position of `p` projected onto the plane of triangle `t` (extrapolated past its edges)
+const projectToTexel = (index: SurfaceIndex, t: number, p: Vec3) => {
+  const o = t * 9, m = t * 6;
+  const dx = p.x - index.positions[o], dy = p.y - index.positions[o + 1], dz = p.z - index.positions[o + 2];
+  const M = index.toTexel;
+  return {
+    x: index.texels[m] + M[m] * dx + M[m + 1] * dy + M[m + 2] * dz,
+    y: index.texels[m + 1] + M[m + 3] * dx + M[m + 4] * dy + M[m + 5] * dz
+  };
+};
+
+// Texel triangle grown by CLIP_PADDING about its centroid, wound consistently
+// so overlapping triangles never cancel under the nonzero rule
+const addClipTriangle = (path: Path2D, index: SurfaceIndex, t: number) => {
+  const q = index.texels, o = t * 6;
+  let ax = q[o], ay = q[o + 1], bx = q[o + 2], by = q[o + 3];
+  const cx = q[o + 4], cy = q[o + 5];
+  const area = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+  if (area < 0) { [ax, ay, bx, by] = [bx, by, ax, ay]; }
+  const perimeter = Math.hypot(bx - ax, by - ay) + Math.hypot(cx - bx, cy - by) + Math.hypot(ax - cx, ay - cy);
+  const inradius = Math.abs(area) / Math.max(perimeter, 1e-6);
+  const grow = 1 + CLIP_PADDING / Math.max(inradius, 1e-3);
+  const mx = (ax + bx + cx) / 3, my = (ay + by + cy) / 3;
+  path.moveTo(mx + (ax - mx) * grow, my + (ay - my) * grow);
+  path.lineTo(mx + (bx - mx) * grow, my + (by - my) * grow);
+  path.lineTo(mx + (cx - mx) * grow, my + (cy - my) * grow);
+  path.closePath();
+};
+
+export const SurfaceAPI = {
+  // Precompute triangle frames, UV adjacency and a spatial hash. An edge shared by two triangles
+  // in 3D but with different UVs on either side is a seam; strokes are continued across it.
+  build: (geometry: THREE.BufferGeometry): SurfaceIndex | null => {
+    const position = geometry.attributes.position;
+    const uv = geometry.attributes.uv;
+    if (!position || !uv) return null;
+    const indexAttr = geometry.index;
+    const count = Math.floor((indexAttr ? indexAttr.count : position.count) / 3);
+    const vertex = (i: number) => indexAttr ? indexAttr.getX(i) : i;
+
+    const positions = new Float32Array(count * 9);
+    const texels = new Float32Array(count * 6);
+    const toTexel = new Float32Array(count * 6);
+    const fromTexel = new Float32Array(count * 6);
+    const density = new Float32Array(count);
+    const valid = new Uint8Array(count);
+
+    geometry.computeBoundingBox();
+    const box = geometry.boundingBox!;
+    const size = box.getSize(new THREE.Vector3());
+    const extent = Math.max(size.x, size.y, size.z, 1e-6);
+    const posEps = extent * 1e-5;
+    const posKey = (x: number, y: number, z: number) => `${Math.round(x / posEps)},${Math.round(y / posEps)},${Math.round(z / posEps)}`;
+    const uvKey = (u: number, v: number) => `${Math.round(u * 1e5)},${Math.round(v * 1e5)}`;
+
+    const vertexPosKeys: string[] = new Array(count * 3);
+    const vertexUVKeys: string[] = new Array(count * 3);
+    let edgeLength = 0;
+
+    for (let t = 0; t < count; t++) {
+      for (let k = 0; k < 3; k++) {
+        const v = vertex(t * 3 + k);
+        const x = position.getX(v), y = position.getY(v), z = position.getZ(v);
+        positions[t * 9 + k * 3] = x;
+        positions[t * 9 + k * 3 + 1] = y;
+        positions[t * 9 + k * 3 + 2] = z;
+        // Texture space has V pointing up; canvas rows go down
+        texels[t * 6 + k * 2] = uv.getX(v) * TEXTURE_SIZE;
+        texels[t * 6 + k * 2 + 1] = (1 - uv.getY(v)) * TEXTURE_SIZE;
+        vertexPosKeys[t * 3 + k] = posKey(x, y, z);
+        vertexUVKeys[t * 3 + k] = uvKey(uv.getX(v), uv.getY(v));
+      }
+
+      // Edge frames: E = [e1 e2] in 3D, T = [t1 t2] in texels
+      const o = t * 9, q = t * 6;
+      const e1x = positions[o + 3] - positions[o], e1y = positions[o + 4] - positions[o + 1], e1z = positions[o + 5] - positions[o + 2];
+      const e2x = positions[o + 6] - positions[o], e2y = positions[o + 7] - positions[o + 1], e2z = positions[o + 8] - positions[o + 2];
+      const t1x = texels[q + 2] - texels[q], t1y = texels[q + 3] - texels[q + 1];
+      const t2x = texels[q + 4] - texels[q], t2y = texels[q + 5] - texels[q + 1];
+      edgeLength += Math.hypot(e1x, e1y, e1z);
+
+      const g11 = e1x * e1x + e1y * e1y + e1z * e1z;
+      const g12 = e1x * e2x + e1y * e2y + e1z * e2z;
+      const g22 = e2x * e2x + e2y * e2y + e2z * e2z;
+      const gDet = g11 * g22 - g12 * g12;
+      const tDet = t1x * t2y - t2x * t1y;
+      if (gDet <= 1e-18 || Math.abs(tDet) <= 1e-9) continue; // Degenerate in 3D or in UV
+      valid[t] = 1;
+
+      // toTexel = T (EᵀE)⁻¹ Eᵀ: exact on the edges, zero along the normal
+      const i11 = g22 / gDet, i12 = -g12 / gDet, i22 = g11 / gDet;
+      const a11 = t1x * i11 + t2x * i12, a12 = t1x * i12 + t2x * i22;
+      const a21 = t1y * i11 + t2y * i12, a22 = t1y * i12 + t2y * i22;
+      toTexel[q] = a11 * e1x + a12 * e2x;
+      toTexel[q + 1] = a11 * e1y + a12 * e2y;
+      toTexel[q + 2] = a11 * e1z + a12 * e2z;
+      toTexel[q + 3] = a21 * e1x + a22 * e2x;
+      toTexel[q + 4] = a21 * e1y + a22 * e2y;
+      toTexel[q + 5] = a21 * e1z + a22 * e2z;
+
+      // fromTexel = E T⁻¹ (columns: 3D offset per texel along x, along y)
+      const j11 = t2y / tDet, j12 = -t2x / tDet, j21 = -t1y / tDet, j22 = t1x / tDet;
+      fromTexel[q] = e1x * j11 + e2x * j21;
+      fromTexel[q + 1] = e1y * j11 + e2y * j21;
+      fromTexel[q + 2] = e1z * j11 + e2z * j21;
+      fromTexel[q + 3] = e1x * j12 + e2x * j22;
+      fromTexel[q + 4] = e1y * j12 + e2y * j22;
+      fromTexel[q + 5] = e1z * j12 + e2z * j22;
+
+      // Both determinants are twice the triangle area in their space
+      density[t] = Math.sqrt(Math.abs(tDet) / Math.sqrt(gDet));
+    }
+
+    // UV adjacency: triangles sharing an edge in 3D are neighbours only if both endpoints share UVs too
+    const neighbors = new Int32Array(count * 3).fill(-1);
+    const edges = new Map<string, { t: number; k: number; uv: string }>();
+    let seamEdges = 0;
+    for (let t = 0; t < count; t++) {
+      if (!valid[t]) continue;
+      for (let k = 0; k < 3; k++) {
+        const a = t * 3 + k, b = t * 3 + (k + 1) % 3;
+        const forward = vertexPosKeys[a] < vertexPosKeys[b];
+        const key = forward ? `${vertexPosKeys[a]}|${vertexPosKeys[b]}` : `${vertexPosKeys[b]}|${vertexPosKeys[a]}`;
+        const uvPair = forward ? `${vertexUVKeys[a]}|${vertexUVKeys[b]}` : `${vertexUVKeys[b]}|${vertexUVKeys[a]}`;
+        const other = edges.get(key);
+        if (!other) {
+          edges.set(key, { t, k, uv: uvPair });
+        } else if (other.uv === uvPair) {
+          neighbors[t * 3 + k] = other.t;
+          neighbors[other.t * 3 + other.k] = t;
+        } else {
+          seamEdges++;
+        }
+      }
+    }
+
+    // Spatial hash sized to a few average edges per cell
+    const cellSize = Math.max((edgeLength / Math.max(count, 1)) * 2, extent / 256);
+    const cells = new Map<string, number[]>();
+    for (let t = 0; t < count; t++) {
+      if (!valid[t]) continue;
+      const o = t * 9;
+      const minX = Math.min(positions[o], positions[o + 3], positions[o + 6]), maxX = Math.max(positions[o], positions[o + 3], positions[o + 6]);
+      const minY = Math.min(positions[o + 1], positions[o + 4], positions[o + 7]), maxY = Math.max(positions[o + 1], positions[o + 4], positions[o + 7]);
+      const minZ = Math.min(positions[o + 2], positions[o + 5], positions[o + 8]), maxZ = Math.max(positions[o + 2], positions[o + 5], positions[o + 8]);
+      for (let x = Math.floor(minX / cellSize); x <= Math.floor(maxX / cellSize); x++) {
+        for (let y = Math.floor(minY / cellSize); y <= Math.floor(maxY / cellSize); y++) {
+          for (let z = Math.floor(minZ / cellSize); z <= Math.floor(maxZ / cellSize); z++) {
+            const key = cellKey(x, y, z);
+            const list = cells.get(key);
+            if (list) list.push(t); else cells.set(key, [t]);
+          }
+        }
+      }
+    }
+
+    console.log(`[SurfaceAPI] build(triangles=${count}, seamEdges=${seamEdges})`);
+    return { triangleCount: count, positions, texels, toTexel, fromTexel, density, neighbors, cellSize, cells, seamEdges };
+  },
+
+  // Closest triangle to `p`, searching outwards up to `maxDistance`
+  nearest: (index: SurfaceIndex, p: Vec3, maxDistance: number = Infinity): { triangle: number; distance: number } | null => {
+    const candidates = new Set<number>();
+    let radius = index.cellSize;
+    let best = -1, bestDistance = Infinity;
+    while (best === -1) {
+      queryCells(index, p, Math.min(radius, maxDistance), candidates);
+      candidates.forEach(t => {
+        const d = triangleDistance(index, t, p);
+        if (d < bestDistance) { bestDistance = d; best = t; }
+      });
+      if (radius >= maxDistance || radius > index.cellSize * 1024) break;
+      radius *= 2;
+    }
+    return best === -1 || bestDistance > maxDistance ? null : { triangle: best, distance: bestDistance };
+  },
+
+  // Point on the surface closest to `p`, with its texture coordinates
+  closestPoint: (index: SurfaceIndex, p: Vec3, maxDistance: number = Infinity): { point: THREE.Vector3; uv: THREE.Vector2 } | null => {
+    const hit = SurfaceAPI.nearest(index, p, maxDistance);
+    if (!hit) return null;
+    const point = loadTriangle(index, hit.triangle).closestPointToPoint(TMP_POINT.set(p.x, p.y, p.z), new THREE.Vector3());
+    return { point, uv: uvOnTriangle(index, hit.triangle, point) };
+  },
+
+  // Surface point closest to `p` on the line through it along `direction`, at most `maxDistance` either
+  // way. Only triangles in the cells along the line are tested, nearest first.
+  castAlong: (index: SurfaceIndex, p: Vec3, direction: Vec3, maxDistance: number): { point: THREE.Vector3; uv: THREE.Vector2 } | null => {
+    const origin = new THREE.Vector3(p.x, p.y, p.z);
+    const forward = new THREE.Ray(origin, new THREE.Vector3(direction.x, direction.y, direction.z).normalize());
+    const backward = new THREE.Ray(origin, forward.direction.clone().negate());
+    const step = index.cellSize;
+    const seen = new Set<number>();
+    const sample = new THREE.Vector3(), hit = new THREE.Vector3(), bestPoint = new THREE.Vector3();
+    let best = -1, bestDistance = Infinity;
+    // Each query covers the line within one step of its sample, so nothing closer than `d` is left once past it
+    for (let d = 0; d <= maxDistance + step && d <= bestDistance; d += step) {
+      const batch = new Set<number>();
+      queryCells(index, sample.copy(origin).addScaledVector(forward.direction, d), step, batch);
+      queryCells(index, sample.copy(origin).addScaledVector(forward.direction, -d), step, batch);
+      batch.forEach(t => {
+        if (seen.has(t)) return;
+        seen.add(t);
+        const triangle = loadTriangle(index, t);
+        for (const ray of [forward, backward]) {
+          if (!ray.intersectTriangle(triangle.a, triangle.b, triangle.c, false, hit)) continue;
+          const distance = hit.distanceTo(origin);
+          if (distance <= maxDistance && distance < bestDistance) { best = t; bestDistance = distance; bestPoint.copy(hit); }
+        }
+      });
+    }
+    return best === -1 ? null : { point: bestPoint, uv: uvOnTriangle(index, best, bestPoint) };
+  },
+
+  // Place a stamp centered on surface point `p` into every UV chart within `reach` texels of it.
+  // The chart of the nearest triangle gets the stamp unchanged; charts on the far side of a seam get
+  // it mapped through their own UV frame, so it keeps its size and orientation on the model.
+  splat: (index: SurfaceIndex, p: Vec3, reach: number): Splat[] => {
+    const hit = SurfaceAPI.nearest(index, p, index.cellSize * 4);
+    if (!hit) return EMPTY_SPLATS;
+    const ref = hit.triangle;
+    const reachWorld = reach / index.density[ref];
+    if (hit.distance > reachWorld) return EMPTY_SPLATS;
+
+    // Triangles touched by the stamp, with their distances
+    const candidates = new Set<number>();
+    queryCells(index, p, reachWorld, candidates);
+    const touched = new Map<number, number>();
+    candidates.forEach(t => {
+      const d = triangleDistance(index, t, p);
+      if (d <= reachWorld) touched.set(t, d);
+    });
+    touched.set(ref, hit.distance);
+
+    // Split the touched set into charts: pieces connected through UV-continuous edges
+    const splats: Splat[] = [];
+    const visited = new Set<number>();
+    const F = index.fromTexel, M = index.toTexel, r6 = ref * 6;
+    touched.forEach((_, seed) => {
+      if (visited.has(seed)) return;
+      const chart: number[] = [];
+      const stack = [seed];
+      visited.add(seed);
+      while (stack.length > 0) {
+        const t = stack.pop()!;
+        chart.push(t);
+        for (let k = 0; k < 3; k++) {
+          const n = index.neighbors[t * 3 + k];
+          if (n !== -1 && touched.has(n) && !visited.has(n)) { visited.add(n); stack.push(n); }
+        }
+      }
+
+      // Anchor the chart on its closest triangle
+      let anchor = chart[0];
+      chart.forEach(t => { if (touched.get(t)! < touched.get(anchor)!) anchor = t; });
+      const center = projectToTexel(index, anchor, p);
+
+      // Stamp frame (reference texels) -> 3D (reference plane) -> this chart's texels
+      let transform: Splat['transform'] = [1, 0, 0, 1];
+      if (!chart.includes(ref)) {
+        const a6 = anchor * 6;
+        const m = (row: number, col: number) =>
+          M[a6 + row * 3] * F[r6 + col * 3] + M[a6 + row * 3 + 1] * F[r6 + col * 3 + 1] + M[a6 + row * 3 + 2] * F[r6 + col * 3 + 2];
+        transform = [m(0, 0), m(1, 0), m(0, 1), m(1, 1)];
+      }
+
+      const clip = new Path2D();
+      chart.forEach(t => addClipTriangle(clip, index, t));
+      splats.push({ x: center.x, y: center.y, transform, clip });
+    });
+    return splats;
+  },
+
+  // Face normal of the triangle closest to `p` (null when off the surface)
+  normalAt: (index: SurfaceIndex, p: Vec3): THREE.Vector3 | null => {
+    const hit = SurfaceAPI.nearest(index, p, index.cellSize * 4);
+    if (!hit) return null;
+    const P = index.positions, o = hit.triangle * 9;
+    const a = new THREE.Vector3(P[o], P[o + 1], P[o + 2]);
+    const ab = new THREE.Vector3(P[o + 3], P[o + 4], P[o + 5]).sub(a);
+    const ac = new THREE.Vector3(P[o + 6], P[o + 7], P[o + 8]).sub(a);
+    return ab.cross(ac).normalize();
+  },
+
+  // Texels per world unit around `p` (1 when off the surface)
+  densityAt: (index: SurfaceIndex, p: Vec3): number => {
+    const hit = SurfaceAPI.nearest(index, p, index.cellSize * 4);
+    return hit ? index.density[hit.triangle] : 1;
+  }
+};
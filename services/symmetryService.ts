@@ -0,0 +1,32 @@
+import * as THREE from 'three';
+import { Axis, SymmetrySettings } from '../types';
+
+const AXES: Axis[] = ['x', 'y', 'z'];
+
+const axisVector = (axis: Axis) => new THREE.Vector3(axis === 'x' ? 1 : 0, axis === 'y' ? 1 : 0, axis === 'z' ? 1 : 0);
+
+export const SymmetryAPI = {
+  isActive: (symmetry: SymmetrySettings): boolean =>
+    symmetry.radial > 1 || AXES.some(axis => symmetry.mirror[axis]),
+
+  // Object-space copies of a stroke: the identity first, then every combination of the enabled
+  // mirror planes with every radial step
+  transforms: (symmetry: SymmetrySettings): THREE.Matrix4[] => {
+    console.log(`[SymmetryAPI] transforms(mirror=${AXES.filter(a => symmetry.mirror[a]).join('') || 'none'}, radial=${symmetry.radial})`);
+    let mirrors = [new THREE.Matrix4()];
+    AXES.forEach(axis => {
+      if (!symmetry.mirror[axis]) return;
+      const v = axisVector(axis);
+      const reflect = new THREE.Matrix4().makeScale(1 - 2 * v.x, 1 - 2 * v.y, 1 - 2 * v.z);
+      mirrors = mirrors.concat(mirrors.map(m => reflect.clone().multiply(m)));
+    });
+
+    const steps = Math.max(1, Math.round(symmetry.radial));
+    const result: THREE.Matrix4[] = [];
+    for (let k = 0; k < steps; k++) {
+      const rotate = new THREE.Matrix4().makeRotationAxis(axisVector(symmetry.radialAxis), (k / steps) * Math.PI * 2);
+      mirrors.forEach(m => result.push(rotate.clone().multiply(m)));
+    }
+    return result;
+  }
+};
@@ -0,0 +1,43 @@
+import { BrushPreset, LibraryTip } from '../types';
+import { BrushImportAPI, ImportedTip } from './brushImportService';
+import { StorageAPI } from './storageService';
+
+const STORAGE_KEY = 'tip-library';
+// Brush sizes a preset may set (the Size slider's range)
+const MIN_PRESET_SIZE = 1;
+const MAX_PRESET_SIZE = 150;
+
+const genId = () => Math.random().toString(36).substr(2, 9);
+
+const toPreset = (tip: ImportedTip): BrushPreset => {
+  const settings: BrushPreset['settings'] = { maskImage: tip.src, textureMix: 0 };
+  if (tip.spacing !== undefined) settings.spacing = Math.min(1, Math.max(0.01, tip.spacing));
+  if (tip.angle !== undefined) settings.rotation = tip.angle;
+  if (tip.diameter !== undefined) settings.size = Math.round(Math.min(MAX_PRESET_SIZE, Math.max(MIN_PRESET_SIZE, tip.diameter)));
+  return { id: genId(), name: tip.name, settings };
+};
+
+export const TipLibraryAPI = {
+  load: async (): Promise<LibraryTip[]> => {
+    console.log(`[TipLibraryAPI] load()`);
+    try {
+      return (await StorageAPI.get<LibraryTip[]>(STORAGE_KEY)) ?? [];
+    } catch (err) {
+      console.warn(`[TipLibraryAPI] Failed to load the tip library.`, err);
+      return [];
+    }
+  },
+
+  save: (tips: LibraryTip[]): Promise<void> => StorageAPI.set(STORAGE_KEY, tips),
+
+  // Tips and presets of one brush file. Image hoses (GIH) are a sequence of cells of one brush,
+  // so they get a single preset from their first cell.
+  importFile: async (file: File): Promise<{ tips: LibraryTip[]; presets: BrushPreset[] }> => {
+    console.log(`[TipLibraryAPI] importFile(fileName=${file.name})`);
+    const imported = await BrushImportAPI.parse(file);
+    const tips = imported.map(tip => ({ id: genId(), name: tip.name, src: tip.src, source: file.name }));
+    const isHose = file.name.toLowerCase().endsWith('.gih');
+    const presets = (isHose ? imported.slice(0, 1) : imported).map(toPreset);
+    return { tips, presets };
+  }
+};
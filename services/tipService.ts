@@ -0,0 +1,145 @@
+import { ProceduralTip } from '../types';
+import { MathUtils, Noise } from './math';
+
+// Masks kept per tip, hardness and pixel size; the oldest go first
+const CACHE_LIMIT = 96;
+const MAX_MASK_SIZE = 1024;
+// Hardness steps that share a mask (dynamics vary hardness per stamp)
+const HARDNESS_STEPS = 50;
+// Gradient stops that trace the falloff curve of soft round tips
+const FALLOFF_STOPS = 8;
+// Smallest radius drawn as is; smaller round tips are drawn at this radius with their ink spread thinner,
+// so tiny stamps neither vanish nor alias to single hard pixels
+const MIN_ROUND_RADIUS = 1;
+
+const cache = new Map<string, HTMLCanvasElement>();
+
+// Outline of the tip as distance to the rim along the ray at `theta`, in units of the outer radius
+const rimRadius = (tip: ProceduralTip, theta: number): number => {
+  let r = 1;
+  if (tip.shape !== 'round') {
+    // Regular polygon, or a star alternating between the outer and inner radius; first vertex points up
+    const n = Math.max(3, Math.round(tip.sides));
+    const step = tip.shape === 'star' ? Math.PI / n : (Math.PI * 2) / n;
+    const a = MathUtils.mod(theta + Math.PI / 2, step * (tip.shape === 'star' ? 2 : 1));
+    let a0 = 0, a1 = step, r0 = 1, r1 = 1;
+    if (tip.shape === 'star') {
+      const inner = MathUtils.clamp(tip.starInset, 0.1, 0.9);
+      if (a < step) { r1 = inner; } else { a0 = step; a1 = step * 2; r0 = inner; }
+    }
+    // Ray from the center meets the straight edge between the two vertices
+    r = (r0 * r1 * Math.sin(a1 - a0)) / (r0 * Math.sin(a - a0) + r1 * Math.sin(a1 - a));
+  }
+  if (tip.noise > 0) {
+    // Noise wraps around the rim, so the outline closes without a seam
+    const period = Math.max(1, Math.round(tip.noiseScale));
+    const n = Noise.fbm2D(tip.noiseSeed, (MathUtils.mod(theta, Math.PI * 2) / (Math.PI * 2)) * period, 0.5, 3, period);
+    r *= 1 - MathUtils.clamp(tip.noise, 0, 1) * 0.6 * n;
+  }
+  return r;
+};
+
+// Coverage at a point in tip units (outer radius 1): solid inside `hardness` of the rim, then easing to clear.
+// `cos`/`sin` are of the tip angle.
+const coverage = (tip: ProceduralTip, hardness: number, cos: number, sin: number, x: number, y: number): number => {
+  const u = x * cos + y * sin;
+  const v = (-x * sin + y * cos) / MathUtils.clamp(tip.roundness, 0.05, 1);
+  const d = Math.hypot(u, v) / rimRadius(tip, Math.atan2(v, u));
+  return TipAPI.falloff(d, hardness);
+};
+
+// Color at a fraction of full opacity, for gradient stops (hex colors; anything else fades via black)
+const withAlpha = (color: string, alpha: number): string => {
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color + Math.round(alpha * 255).toString(16).padStart(2, '0');
+  return alpha >= 1 ? color : `rgba(0,0,0,${alpha})`;
+};
+
+const render = (tip: ProceduralTip, hardness: number, pixels: number): HTMLCanvasElement => {
+  const cvs = document.createElement('canvas');
+  cvs.width = pixels;
+  cvs.height = pixels;
+  const ctx = cvs.getContext('2d')!;
+  const image = ctx.createImageData(pixels, pixels);
+  // Supersampling anti-aliases hard rims; large masks need fewer samples per pixel
+  const samples = pixels < 64 ? 4 : 2;
+  const half = pixels / 2;
+  const angle = MathUtils.degToRad(tip.angle);
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  for (let py = 0; py < pixels; py++) {
+    for (let px = 0; px < pixels; px++) {
+      let sum = 0;
+      for (let sy = 0; sy < samples; sy++) {
+        for (let sx = 0; sx < samples; sx++) {
+          const x = (px + (sx + 0.5) / samples - half) / half;
+          const y = (py + (sy + 0.5) / samples - half) / half;
+          sum += coverage(tip, hardness, cos, sin, x, y);
+        }
+      }
+      const i = (py * pixels + px) * 4;
+      image.data[i] = 255;
+      image.data[i + 1] = 255;
+      image.data[i + 2] = 255;
+      image.data[i + 3] = Math.round((sum / (samples * samples)) * 255);
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return cvs;
+};
+
+export const TipAPI = {
+  // Coverage at distance `d` from the center (1 = rim): solid inside `hardness`, then easing to clear
+  falloff: (d: number, hardness: number): number => {
+    if (d >= 1) return 0;
+    if (d <= hardness) return 1;
+    return 1 - MathUtils.smoothStep((d - hardness) / (1 - hardness));
+  },
+
+  // Plain round tip centered on the origin, drawn analytically so it lands at sub-pixel positions.
+  // Soft tips follow the same falloff curve as the procedural masks.
+  drawRound: (ctx: CanvasRenderingContext2D, radius: number, color: string, hardness: number) => {
+    const r = Math.max(radius, MIN_ROUND_RADIUS);
+    const h = MathUtils.clamp(hardness, 0, 1);
+    ctx.save();
+    if (r > radius) ctx.globalAlpha *= (radius / r) ** 2; // Same ink as the true size
+    if (h >= 1) {
+      ctx.fillStyle = color;
+    } else {
+      const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, r);
+      gradient.addColorStop(0, color);
+      gradient.addColorStop(h, color);
+      for (let i = 1; i <= FALLOFF_STOPS; i++) {
+        const d = h + ((1 - h) * i) / FALLOFF_STOPS;
+        gradient.addColorStop(d, withAlpha(color, TipAPI.falloff(d, h)));
+      }
+      ctx.fillStyle = gradient;
+    }
+    ctx.beginPath();
+    ctx.arc(0, 0, r, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  },
+
+  // The plain round tip, which needs no mask
+  isPlain: (tip: ProceduralTip): boolean =>
+    tip.shape === 'round' && tip.roundness >= 1 && tip.noise <= 0,
+
+  // White alpha mask of the tip at `size` pixels across, like BrushAPI.processMaskTip output
+  mask: (tip: ProceduralTip, hardness: number, size: number): HTMLCanvasElement => {
+    // Larger sizes snap to coarser steps, so pressure-driven sizes share masks
+    const raw = MathUtils.clamp(Math.ceil(size), 1, MAX_MASK_SIZE);
+    const step = Math.max(1, Math.floor(raw / 24));
+    const pixels = Math.ceil(raw / step) * step;
+    const h = Math.round(MathUtils.clamp(hardness, 0, 1) * HARDNESS_STEPS) / HARDNESS_STEPS;
+    const key = `${tip.shape}|${tip.roundness}|${tip.angle}|${tip.sides}|${tip.starInset}|${tip.noise}|${tip.noiseScale}|${tip.noiseSeed}|${h}|${pixels}`;
+    let mask = cache.get(key);
+    if (mask) {
+      // Most recently used moves to the back
+      cache.delete(key);
+    } else {
+      mask = render(tip, h, pixels);
+      if (cache.size >= CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+    }
+    cache.set(key, mask);
+    return mask;
+  }
+};
@@ -1,8 +1,50 @@
 
 export interface Vec3 { x: number; y: number; z: number; }
 
+// Bezier curve point in mesh-local space, with the surface normal it is cast back onto the mesh along.
+// Projects saved before normals were stored have none; the surface under the point supplies it then.
+export interface CurvePoint extends Vec3 { normal?: Vec3; }
+
+// Freehand smoothing: 'lazy' drags the brush behind the pointer on a string, 'average' follows the
+// mean of the latest pointer samples
+export type StabilizerMode = 'none' | 'lazy' | 'average';
+
+// Stroke inputs that can drive brush parameters, each normalized to 0-1
+export type DynamicsInput = 'pressure' | 'tilt' | 'twist' | 'velocity' | 'distance' | 'random';
+export type DynamicsTarget = 'size' | 'opacity' | 'flow' | 'hardness' | 'rotation' | 'jitter' | 'color';
+
+// Response curve: control points sorted by x (both 0-1), interpolated linearly
+export type DynamicsCurve = { x: number; y: number }[];
+
+// One input driving one brush parameter. `amount` blends from "no effect" (0) to the full curve (1).
+export interface DynamicsMapping {
+  id: string;
+  input: DynamicsInput;
+  target: DynamicsTarget;
+  curve: DynamicsCurve;
+  amount: number;
+}
+
+// Pen and stroke state at one pointer sample (inputs other than random)
+export type StrokeSample = Record<Exclude<DynamicsInput, 'random'>, number>;
+
+export type TipShape = 'round' | 'polygon' | 'star';
+
+// Parametric default tip (used when no image tip is set). Hardness comes from the brush.
+export interface ProceduralTip {
+  shape: TipShape;
+  roundness: number;  // Height / width of the tip (0.05-1)
+  angle: number;      // Degrees; added to the brush rotation
+  sides: number;      // Polygon sides / star points (3-12)
+  starInset: number;  // Inner radius of star shapes, relative to the outer (0.1-0.9)
+  noise: number;      // Edge roughness (0-1)
+  noiseScale: number; // Bumps around the rim
+  noiseSeed: number;
+}
+
 export interface BrushSettings {
   color: string;
+  secondaryColor: string;
   size: number;
   opacity: number;
   hardness: number;
@@ -10,20 +52,63 @@ export interface BrushSettings {
   spacing: number; // Distance between stamps (as ratio of brush size)
   strength: number; // Intensity multiplier/curve for the brush alpha
   isAirbrush: boolean; // Toggle for Airbrush mode
-  usePressure: boolean; // Toggle for Pen Pressure Sensitivity
+  airbrushRate: number; // Airbrush stamps per second laid down at the pen while it is held
+  usePressure: boolean; // Toggle for Pen Pressure Sensitivity (off = pen inputs read as resting pen)
   maskImage: string | null; // Base64 data URL for the brush tip shape
+  tip: ProceduralTip; // Shape of the default (non-image) tip
   textureMix: number; // 0 = Use Brush Color (Tint), 1 = Use Texture Color
-  mode: 'paint' | 'erase' | 'curve';
+  // smudge/blur/sharpen/clone rework pixels already on the target instead of laying down color
+  mode: 'paint' | 'erase' | 'curve' | 'smudge' | 'blur' | 'sharpen' | 'clone';
   curvePreviewMode: 'none' | 'stroke' | 'fill'; // Live preview mode for curve
   rotation: number;       // Base rotation in degrees
   rotationJitter: number; // Random rotation variation (0-1)
   positionJitter: number; // Random position scattering (0-1 relative to size)
+  projectionPaint: boolean; // Stamp in screen space and project through the camera instead of stamping on the surface
+  stabilizer: StabilizerMode;
+  stabilizerRadius: number;     // Lazy-mouse string length (screen pixels)
+  stabilizerWindow: number;     // Pointer samples averaged (moving average)
+  stabilizerCatchUp: boolean;   // Finish the stroke at the pointer's release position
+  dynamics: DynamicsMapping[];  // Input -> parameter mappings, applied per stamp in order
+  // Color dynamics (base color only)
+  hueJitter: number;        // Random hue offset, up to half the wheel either way at 1
+  saturationJitter: number; // Random saturation offset (0-1)
+  valueJitter: number;      // Random value offset (0-1)
+  secondaryMix: number;     // How far stamps can move from color towards secondaryColor (0-1)
+  secondaryMixInput: DynamicsInput | 'none'; // What scales the mix ('none' = always the full amount)
+  colorRandomize: 'stroke' | 'stamp'; // Draw the random color offsets once per stroke or for every stamp
+  channels: MaterialChannel[]; // Material channels a stroke paints into
+  roughness: number; // Value painted into the roughness channel (0-1)
+  metallic: number;  // Value painted into the metallic channel (0-1)
+  height: number;    // Value painted into the height channel (0-1, 0.5 = flat)
+  emissive: string;  // Color painted into the emissive channel
+}
+
+// A brush tip in the user's tip library (imported brush files)
+export interface LibraryTip {
+  id: string;
+  name: string;
+  src: string;    // PNG data URL, white ink on black
+  source: string; // File the tip came from
 }
 
 export interface BrushPreset {
   id: string;
   name: string;
   settings: Partial<BrushSettings>;
+  category?: string;  // Library section; uncategorized presets show under "General"
+  tags?: string[];
+  thumbnail?: string; // PNG data URL of a sample stroke
+}
+
+export type BlendMode =
+  | 'normal' | 'multiply' | 'screen' | 'overlay' | 'soft-light' | 'hard-light'
+  | 'add' | 'darken' | 'lighten' | 'color-dodge' | 'color-burn' | 'difference' | 'exclusion'
+  | 'hue' | 'saturation' | 'color' | 'luminosity';
+
+// A texture-sized pixel buffer the brush engine can draw into (layer color or layer mask)
+export interface PaintSurface {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
 }
 
 export interface Layer {
@@ -31,20 +116,85 @@ export interface Layer {
   name: string;
   visible: boolean;
   opacity: number;
+  blendMode: BlendMode; // How the layer combines with everything below it
   canvas: HTMLCanvasElement; // Offscreen canvas for this layer
   ctx: CanvasRenderingContext2D;
+  // Grayscale reveal mask, stored as the alpha of a white canvas (opaque = revealed, clear = hidden)
+  mask: PaintSurface | null;
+  // Extra material channels, allocated on first paint. Base color lives in canvas/ctx.
+  channels: Partial<Record<DataChannel, PaintSurface>>;
+  clipped: boolean; // Clip to the alpha of the nearest unclipped layer below
+  lockAlpha: boolean; // Painting only recolors pixels that are already opaque
+}
+
+// Folder in the layer tree. 'pass-through' blends children straight into the stack below;
+// any other mode composites the children in isolation first and blends the result.
+export interface LayerGroup {
+  id: string;
+  name: string;
+  visible: boolean;
+  opacity: number;
+  blendMode: BlendMode | 'pass-through';
+  collapsed: boolean; // UI only: children hidden in the layer panel
+  children: LayerNode[]; // Bottom -> Top
 }
 
+export type LayerNode = Layer | LayerGroup;
+
+export type PaintTarget = 'color' | 'mask';
+
+// PBR channels a layer can carry. Height drives the material's bump (normal) mapping.
+export type MaterialChannel = 'color' | 'roughness' | 'metallic' | 'height' | 'emissive';
+export type DataChannel = Exclude<MaterialChannel, 'color'>;
+
+// 'linear' = flat quads between lattice points, 'smooth' = bicubic surface through them (no creases at cuts)
+export type StencilInterpolation = 'linear' | 'smooth';
+
 export interface StencilSettings {
+  id: string; // Library entry of the stencil being edited
+  name: string;
   visible: boolean;
   image: string | null; // The texture to project
   opacity: number;
   aspectRatio: number;
   mode: 'edit' | 'paint'; // 'edit' = Adjust Gizmo, 'paint' = Paint/Project (Gizmo locked)
-  tool: 'select' | 'loop'; // 'select' = Move points/mesh, 'loop' = Add subdivisions
+  tool: 'select' | 'loop' | 'remove-loop'; // 'select' = Move points/mesh, 'loop' = Add subdivisions, 'remove-loop' = Delete them
   rowCuts: number[]; // Ordered normalized values (0..1) defining horizontal cuts
   colCuts: number[]; // Ordered normalized values (0..1) defining vertical cuts
   cullBackfaces: boolean; // Prevent projection on surfaces facing away from stencil
+  proportional: boolean; // Moving points drags their neighbours along, fading out over proportionalRadius
+  proportionalRadius: number; // In stencil plane units (the image is 1 tall)
+  snapToCuts: boolean; // Moved points snap onto the undeformed cut lines
+  gridPoints: Vec3[][] | null; // Deformed lattice (rows x cols). null = build default grid from aspectRatio
+  interpolation: StencilInterpolation; // How the lattice warps the image between its points
+  transform: StencilTransform; // World placement of the stencil plane
+}
+
+// Geometric part of a stencil (lattice + placement), independent of its image
+export type StencilRig = Pick<StencilSettings, 'rowCuts' | 'colCuts' | 'gridPoints' | 'interpolation' | 'transform'>;
+
+// One stencil of a project's library: its image and rig. View settings (visibility, opacity, tool) are shared.
+export type StencilDocument = Pick<StencilSettings, 'id' | 'name' | 'image' | 'aspectRatio'> & StencilRig;
+
+export interface StencilTransform {
+  position: Vec3;
+  rotation: { x: number; y: number; z: number; w: number }; // Quaternion
+  scale: Vec3;
+}
+
+export interface CameraPose {
+  position: Vec3;
+  target: Vec3; // Orbit pivot
+}
+
+export type Axis = 'x' | 'y' | 'z';
+
+// Strokes repeated across mirror planes and around an axis, in the mesh's object space
+export interface SymmetrySettings {
+  mirror: Record<Axis, boolean>; // Mirror across the plane perpendicular to each axis (through the origin)
+  radial: number;                // N-fold repeats around radialAxis (1 = off)
+  radialAxis: Axis;
+  showPlanes: boolean;           // Draw the symmetry planes in the viewport
 }
 
 export interface AxisWidgetSettings {
@@ -53,7 +203,25 @@ export interface AxisWidgetSettings {
   margin: [number, number];
 }
 
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  bytes: number; // Approximate memory held by this entry (counted against the history budget)
+  undo: () => void;
+  redo: () => void;
+}
+
+// Read-only snapshot of the history stack for UI
 export interface HistoryState {
-  // Simplified history for undo/redo could go here, 
-  // but for now we focus on layers and painting.
-}
\ No newline at end of file
+  entries: { id: string; label: string }[]; // Oldest -> Newest (undone entries included)
+  index: number; // Number of applied entries; entries[index..] are redoable
+  usedBytes: number;
+  budgetBytes: number;
+}
+export interface ExportSettings {
+  format: 'png' | 'webp' | 'tga';
+  resolution: number; // Output width/height in pixels
+  padding: number; // Edge dilation in output pixels (0 = off)
+  composite: boolean; // Export the flattened texture
+  layers: boolean; // Export every layer as its own file
+}